@@ -0,0 +1,90 @@
+// backend/attachments.js
+// Shared by server.js and the Next.js client (src/lib/attachments.ts), so keep
+// it dependency-free CommonJS.
+
+/**
+ * File transfer protocol, identical over the socket relay and the data channel:
+ *   file-start { id, name, mime, size, chunks }  - id is the chat message id
+ *   file-chunk { id, index, data }               - data is base64, chunks sent in order
+ * The transfer is complete once every chunk has arrived.
+ */
+
+const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+const ATTACHMENT_CHUNK_BYTES = 32 * 1024; // Keeps data channel messages well under browser limits
+const MAX_ENCODED_CHUNK_LENGTH = Math.ceil(ATTACHMENT_CHUNK_BYTES / 3) * 4;
+const MAX_FILE_NAME_LENGTH = 120;
+const MAX_MESSAGE_ID_LENGTH = 64;
+const MAX_ACTIVE_TRANSFERS = 3; // Concurrent files per sender; the relay and data channel receivers both hold to it
+
+// No SVG or HTML: they can carry script when opened directly
+const ALLOWED_ATTACHMENT_TYPES = [
+    'image/png',
+    'image/jpeg',
+    'image/gif',
+    'image/webp',
+    'application/pdf',
+    'text/plain',
+];
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+const isPlainObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isMessageId = (value) => typeof value === 'string' && value.length > 0 && value.length <= MAX_MESSAGE_ID_LENGTH;
+
+const chunkCount = (size) => Math.ceil(size / ATTACHMENT_CHUNK_BYTES);
+
+// Drops path separators and control characters; the name is only ever displayed and used as a download name
+const sanitizeFileName = (name) =>
+    name.replace(/[\u0000-\u001f\u007f/\\]/g, '_').trim().slice(0, MAX_FILE_NAME_LENGTH) || 'file';
+
+/**
+ * Checks a file's declared type and size against the limits.
+ * Returns { error, params? } with an error code the client translates, or null when the file is allowed.
+ */
+const checkAttachment = (mime, size) => {
+    if (!ALLOWED_ATTACHMENT_TYPES.includes(mime)) return { error: 'fileTypeNotAllowed' };
+    if (!Number.isInteger(size) || size <= 0) return { error: 'fileEmpty' };
+    if (size > MAX_ATTACHMENT_BYTES) return { error: 'fileTooLarge', params: { maxMb: MAX_ATTACHMENT_BYTES / (1024 * 1024) } };
+    return null;
+};
+
+/**
+ * Validates a file-start. Returns { ok: true, value } with a clean copy, or { ok: false, error, params? }.
+ */
+const validateFileStart = (data) => {
+    if (!isPlainObject(data) || !isMessageId(data.id)) return { ok: false, error: 'invalidTransfer' };
+    if (typeof data.name !== 'string' || typeof data.mime !== 'string') return { ok: false, error: 'invalidTransfer' };
+    const problem = checkAttachment(data.mime, data.size);
+    if (problem) return { ok: false, ...problem };
+    if (data.chunks !== chunkCount(data.size)) return { ok: false, error: 'invalidTransfer' };
+    return {
+        ok: true,
+        value: { id: data.id, name: sanitizeFileName(data.name), mime: data.mime, size: data.size, chunks: data.chunks },
+    };
+};
+
+/**
+ * Validates a file-chunk's shape. Whether the index fits the transfer is up to the caller.
+ */
+const validateFileChunk = (data) => {
+    if (!isPlainObject(data) || !isMessageId(data.id) || !Number.isInteger(data.index) || data.index < 0) {
+        return { ok: false, error: 'invalidChunk' };
+    }
+    if (typeof data.data !== 'string' || data.data.length === 0 || data.data.length > MAX_ENCODED_CHUNK_LENGTH
+        || !BASE64_PATTERN.test(data.data)) {
+        return { ok: false, error: 'invalidChunk' };
+    }
+    return { ok: true, value: { id: data.id, index: data.index, data: data.data } };
+};
+
+module.exports = {
+    MAX_ATTACHMENT_BYTES,
+    ATTACHMENT_CHUNK_BYTES,
+    ALLOWED_ATTACHMENT_TYPES,
+    MAX_ACTIVE_TRANSFERS,
+    chunkCount,
+    checkAttachment,
+    validateFileStart,
+    validateFileChunk,
+};
@@ -0,0 +1,149 @@
+// backend/contentFilters.js
+
+/**
+ * Content filters run on every relayed chat message, in order.
+ *
+ * A filter receives { text, chatStartedAt, now } and returns nothing to pass,
+ * or one of:
+ *   { action: 'mask', text }             - replace the text and keep going
+ *   { action: 'reject', error, params? } - stop; the error is sent back to the sender
+ *   { action: 'flag', reason }           - keep going, but flag the conversation for moderation
+ * Any result may also carry `flag: reason` to flag alongside its main action.
+ * Errors are codes the client words from its errors.* catalog keys, so senders
+ * see them in their own language; flag reasons are for moderators and stay as text.
+ */
+
+const escapeRegExp = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const mask = (match) => '*'.repeat(match.length);
+
+/**
+ * Masks (or rejects) messages containing configured words, matched on word boundaries.
+ */
+const createWordListFilter = ({ words, action = 'mask', flag = false }) => {
+    const cleaned = words.map((word) => word.trim()).filter(Boolean);
+    if (cleaned.length === 0) return null;
+    const pattern = new RegExp(`\\b(?:${cleaned.map(escapeRegExp).join('|')})\\b`, 'gi');
+
+    return ({ text }) => {
+        if (!text.match(pattern)) return;
+        const flagReason = flag ? 'Blocked word used' : undefined;
+        if (action === 'reject') {
+            return { action: 'reject', error: 'blockedWords', flag: flagReason };
+        }
+        return { action: 'mask', text: text.replace(pattern, mask), flag: flagReason };
+    };
+};
+
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(?:com|net|org|io|gg|me|co|ly|xyz|info|app|dev|link|tv)\b(?:\/\S*)?/i;
+
+/**
+ * Rejects links sent during the first windowMs of a chat, when spam bots are most active.
+ */
+const createLinkFilter = ({ windowMs }) => {
+    if (!(windowMs > 0)) return null;
+    return ({ text, chatStartedAt, now }) => {
+        if (!chatStartedAt || now - chatStartedAt >= windowMs || !LINK_PATTERN.test(text)) return;
+        const seconds = Math.ceil((windowMs - (now - chatStartedAt)) / 1000);
+        return { action: 'reject', error: 'linksTooSoon', params: { seconds } };
+    };
+};
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+// Only phone-shaped numbers: an optional +country code, then grouped digits such as
+// 555-123-4567, (555) 123 4567, +44 20 7946 0958 or 06 12 34 56 78, or a bare +E.164
+// number. Dates, times, version strings and plain long numbers don't have that shape.
+const PHONE_PATTERN = /(?<![\w+#/-])(?:\+\d{7,15}|(?:\+\d{1,3}[\s.-]?)?(?:(?:\(\d{2,4}\)[\s.-]?|\d{2,4}[\s.-])\d{3,4}[\s.-]?\d{3,4}|\d{3}[\s.-]\d{4}|\d{2}(?:[\s.-]\d{2}){4}))(?![\w-]|[.:/]\d)/g;
+
+/**
+ * Hides emails and phone numbers so strangers don't overshare by accident.
+ */
+const createPiiFilter = ({ action = 'mask' }) => {
+    if (action === 'off') return null;
+    return ({ text }) => {
+        const hasPii = text.match(EMAIL_PATTERN) || text.match(PHONE_PATTERN);
+        if (!hasPii) return;
+        if (action === 'reject') {
+            return { action: 'reject', error: 'contactInfo' };
+        }
+        return {
+            action: 'mask',
+            text: text.replace(EMAIL_PATTERN, '[email removed]').replace(PHONE_PATTERN, '[number removed]'),
+        };
+    };
+};
+
+/**
+ * Runs the filter chain. Returns the (possibly masked) text, the { error, params }
+ * of the filter that rejected if any, and every flag raised along the way.
+ */
+const runContentFilters = (filters, context) => {
+    let text = context.text;
+    const flags = [];
+
+    for (const filter of filters) {
+        let result;
+        try {
+            result = filter({ ...context, text });
+        } catch (err) {
+            console.error('Content filter threw, skipping it:', err);
+            continue;
+        }
+        if (!result || result.action === 'pass') continue;
+
+        if (result.flag) flags.push(result.flag);
+        switch (result.action) {
+            case 'mask':
+                text = result.text;
+                break;
+            case 'flag':
+                flags.push(result.reason);
+                break;
+            case 'reject':
+                return { text, rejected: { error: result.error, ...(result.params && { params: result.params }) }, flags };
+        }
+    }
+
+    return { text, rejected: null, flags };
+};
+
+/**
+ * Reads the built-in filters' settings from environment variables. The server
+ * sends the result to clients in chat-config, so receivers can run the same chain
+ * on peer-to-peer messages; nothing in it (the word list included) is secret.
+ * @param {Record<string, string | undefined>} [env]
+ */
+const readFilterConfig = (env = process.env) => ({
+    words: (env.CONTENT_FILTER_WORDS || '').split(',').map((word) => word.trim()).filter(Boolean),
+    wordAction: env.CONTENT_FILTER_WORD_ACTION === 'reject' ? 'reject' : 'mask',
+    flagWords: env.CONTENT_FILTER_FLAG_WORDS === 'true',
+    piiAction: env.PII_FILTER_ACTION || 'mask',
+    linkBlockWindowMs: parseInt(env.LINK_BLOCK_WINDOW_MS || '60000', 10),
+});
+
+/**
+ * Builds the built-in filter chain from a config like readFilterConfig's.
+ */
+const createFilters = (config) => [
+    createWordListFilter({ words: config.words, action: config.wordAction, flag: config.flagWords }),
+    // PII runs before links so email domains aren't mistaken for URLs
+    createPiiFilter({ action: config.piiAction }),
+    createLinkFilter({ windowMs: config.linkBlockWindowMs }),
+].filter(Boolean);
+
+/**
+ * Builds the built-in filter chain from environment variables. Passing {}
+ * gives the defaults.
+ * @param {Record<string, string | undefined>} [env]
+ */
+const createDefaultFilters = (env = process.env) => createFilters(readFilterConfig(env));
+
+module.exports = {
+    createWordListFilter,
+    createLinkFilter,
+    createPiiFilter,
+    readFilterConfig,
+    createFilters,
+    createDefaultFilters,
+    runContentFilters,
+};
@@ -0,0 +1,58 @@
+// backend/iceServers.js
+const crypto = require('crypto');
+
+/**
+ * Builds the ICE server list handed to each client.
+ *
+ * TURN entries use the TURN REST API credential scheme (coturn's
+ * `use-auth-secret`): username is "<expiry unix seconds>:<user id>" and the
+ * credential is base64(HMAC-SHA1(sharedSecret, username)).
+ *
+ * To try it locally, run coturn (or any server speaking the same scheme) with
+ *   --use-auth-secret --static-auth-secret=$TURN_SECRET
+ * and set TURN_URLS=turn:localhost:3478 on this server.
+ */
+
+const DEFAULT_STUN_URLS = ['stun:stun.l.google.com:19302', 'stun:stun1.l.google.com:19302'];
+
+const splitUrls = (value) => (value || '').split(',').map((url) => url.trim()).filter(Boolean);
+
+const createTurnCredential = (secret, userId, ttlSeconds, now = Date.now()) => {
+    const expiry = Math.floor(now / 1000) + ttlSeconds;
+    const username = `${expiry}:${userId}`;
+    const credential = crypto.createHmac('sha1', secret).update(username).digest('base64');
+    return { username, credential };
+};
+
+/**
+ * The check a TURN server performs on the credentials above. Exported so a
+ * local stand-in can verify what clients receive; see test/iceServers.test.js.
+ */
+const validateTurnCredential = (secret, username, credential, now = Date.now()) => {
+    const expiry = parseInt(String(username).split(':')[0], 10);
+    if (typeof credential !== 'string' || !Number.isFinite(expiry) || expiry * 1000 < now) return false;
+    const expected = crypto.createHmac('sha1', secret).update(username).digest('base64');
+    return expected.length === credential.length
+        && crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(credential));
+};
+
+const createIceServerProvider = (env = process.env) => {
+    const stunUrls = env.STUN_URLS !== undefined ? splitUrls(env.STUN_URLS) : DEFAULT_STUN_URLS;
+    const turnUrls = splitUrls(env.TURN_URLS);
+    const turnSecret = env.TURN_SECRET;
+    const ttlSeconds = parseInt(env.TURN_TTL_SECONDS, 10) || 24 * 60 * 60;
+
+    if (turnUrls.length > 0 && !turnSecret) {
+        console.warn('TURN_URLS is set but TURN_SECRET is missing; TURN servers will not be offered.');
+    }
+
+    return (userId) => {
+        const servers = stunUrls.length > 0 ? [{ urls: stunUrls }] : [];
+        if (turnUrls.length > 0 && turnSecret) {
+            servers.push({ urls: turnUrls, ...createTurnCredential(turnSecret, userId, ttlSeconds) });
+        }
+        return servers;
+    };
+};
+
+module.exports = { createIceServerProvider, createTurnCredential, validateTurnCredential };
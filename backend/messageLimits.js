@@ -0,0 +1,9 @@
+// backend/messageLimits.js
+// Shared by server.js and the Next.js client (src/lib/peerChat.ts), so keep
+// it dependency-free CommonJS.
+
+// Longest chat message or edit, in characters. The server refuses longer relayed
+// messages, receivers drop longer peer-to-peer ones, and the chat input stops there.
+const MAX_MESSAGE_LENGTH = 1000;
+
+module.exports = { MAX_MESSAGE_LENGTH };
@@ -0,0 +1,35 @@
+// backend/pairMemory.js
+
+/**
+ * Remembers directed pairs of client ids (a -> b) until their TTL expires.
+ * Used for "recently chatted with" and "blocked" lists during matchmaking.
+ */
+const createPairMemory = () => {
+    const entries = new Map(); // clientId -> Map(otherClientId -> expiresAt)
+
+    return {
+        remember(a, b, ttlMs) {
+            if (!entries.has(a)) entries.set(a, new Map());
+            entries.get(a).set(b, Date.now() + ttlMs);
+        },
+        has(a, b) {
+            const expiresAt = entries.get(a)?.get(b);
+            if (!expiresAt) return false;
+            if (expiresAt > Date.now()) return true;
+            entries.get(a).delete(b);
+            return false;
+        },
+        // Drops expired entries so long-running servers don't accumulate stale ids
+        sweep() {
+            const now = Date.now();
+            for (const [a, others] of entries) {
+                for (const [b, expiresAt] of others) {
+                    if (expiresAt <= now) others.delete(b);
+                }
+                if (others.size === 0) entries.delete(a);
+            }
+        },
+    };
+};
+
+module.exports = { createPairMemory };
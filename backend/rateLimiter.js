@@ -0,0 +1,64 @@
+// backend/rateLimiter.js
+
+/**
+ * Token bucket: holds up to `capacity` tokens and refills continuously
+ * at `refillPerSec`. Each allowed event spends one token.
+ */
+const createTokenBucket = ({ capacity, refillPerSec }) => {
+    let tokens = capacity;
+    let lastRefill = Date.now();
+
+    const refill = () => {
+        const now = Date.now();
+        tokens = Math.min(capacity, tokens + ((now - lastRefill) / 1000) * refillPerSec);
+        lastRefill = now;
+    };
+
+    return {
+        take() {
+            refill();
+            if (tokens >= 1) {
+                tokens -= 1;
+                return true;
+            }
+            return false;
+        },
+        // Time until the next token is available
+        retryAfterMs() {
+            refill();
+            return tokens >= 1 ? 0 : Math.ceil(((1 - tokens) / refillPerSec) * 1000);
+        },
+    };
+};
+
+/**
+ * Parses a "capacity:refillPerSec" env value, e.g. "10:1".
+ */
+const parseLimit = (value, fallback) => {
+    if (!value) return fallback;
+    const [capacity, refillPerSec] = value.split(':').map(Number);
+    if (capacity > 0 && refillPerSec > 0) return { capacity, refillPerSec };
+    console.warn(`Ignoring invalid rate limit "${value}", using ${fallback.capacity}:${fallback.refillPerSec}`);
+    return fallback;
+};
+
+/**
+ * One bucket per event type for a single socket. Events without a
+ * configured limit are always allowed.
+ */
+const createEventLimiter = (limits) => {
+    const buckets = new Map();
+    return {
+        check(event) {
+            const limit = limits[event];
+            if (!limit) return { allowed: true, retryAfterMs: 0 };
+            if (!buckets.has(event)) buckets.set(event, createTokenBucket(limit));
+            const bucket = buckets.get(event);
+            return bucket.take()
+                ? { allowed: true, retryAfterMs: 0 }
+                : { allowed: false, retryAfterMs: bucket.retryAfterMs() };
+        },
+    };
+};
+
+module.exports = { createTokenBucket, createEventLimiter, parseLimit };
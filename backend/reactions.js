@@ -0,0 +1,22 @@
+// backend/reactions.js
+// Shared by server.js and the Next.js client, so keep it dependency-free CommonJS.
+
+// The picker offers exactly these; anything else is refused on both ends
+const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🔥'];
+const MAX_MESSAGE_ID_LENGTH = 64;
+
+/**
+ * Validates a reaction: { messageId, emoji, active }. `active: false` takes the reaction back.
+ * Returns { ok: true, value } with a clean copy, or { ok: false, error } with an error code.
+ */
+const validateReaction = (data) => {
+    if (typeof data !== 'object' || data === null) return { ok: false, error: 'invalidReaction' };
+    const { messageId, emoji, active } = data;
+    if (typeof messageId !== 'string' || messageId.length === 0 || messageId.length > MAX_MESSAGE_ID_LENGTH) {
+        return { ok: false, error: 'invalidReaction' };
+    }
+    if (!REACTION_EMOJIS.includes(emoji) || typeof active !== 'boolean') return { ok: false, error: 'invalidReaction' };
+    return { ok: true, value: { messageId, emoji, active } };
+};
+
+module.exports = { REACTION_EMOJIS, validateReaction };
@@ -3,6 +3,15 @@ const express = require('express');
 const { createServer } = require('http');
 const { Server } = require('socket.io');
 const { createClient } = require('redis');
+const crypto = require('crypto');
+const { createEventLimiter, parseLimit } = require('./rateLimiter');
+const { readFilterConfig, createFilters, runContentFilters } = require('./contentFilters');
+const { createPairMemory } = require('./pairMemory');
+const { createIceServerProvider } = require('./iceServers');
+const { validateSignal, MAX_SDP_LENGTH } = require('./signalingSchema');
+const { MAX_ACTIVE_TRANSFERS, validateFileStart, validateFileChunk } = require('./attachments');
+const { validateReaction } = require('./reactions');
+const { MAX_MESSAGE_LENGTH } = require('./messageLimits');
 
 const app = express();
 const httpServer = createServer(app);
@@ -31,13 +40,332 @@ async function connectRedis() {
 }
 connectRedis(); // Connect asynchronously
 
-const WAITING_LIST = 'whimsy:waitingUsers'; // Using a prefix is good practice
+// --- Chat Mode Config ---
+// Text-only and video users queue separately and are only ever matched within their mode
+const CHAT_MODES = ['text', 'video'];
+const DEFAULT_CHAT_MODE = 'text';
+const WAITING_LISTS = { // Using a prefix is good practice
+    text: 'whimsy:waitingUsers:text',
+    video: 'whimsy:waitingUsers:video',
+};
+const userModes = new Map(); // Stores socket.id -> chat mode from the handshake
 const userPartners = new Map(); // Stores socket.id -> partner socket.id
+const pairStartedAt = new Map(); // Stores socket.id -> when their current chat began
+
+// --- Interest Matching Config ---
+// How long a user with interests waits for an overlapping partner before accepting anyone
+const INTEREST_MATCH_WINDOW_MS = parseInt(process.env.INTEREST_MATCH_WINDOW_MS, 10) || 10000;
+const MAX_INTERESTS = 5;
+const MAX_INTEREST_LENGTH = 24;
+const MATCH_SCAN_LIMIT = 200; // Max waiting users inspected per match attempt
+const MATCH_CLAIM_ATTEMPTS = 3; // Retries when another match claims our candidate first
+
+const userInterests = new Map(); // Stores socket.id -> normalized interest tags
+const randomEligible = new Set(); // Tagged users whose interest window has expired
+const fallbackTimers = new Map(); // Stores socket.id -> interest window timeout
+
+// --- Partner Memory Config ---
+// Stop "Next" from bouncing users straight back to the stranger they just left
+const RECENT_PARTNER_TTL_MS = parseInt(process.env.RECENT_PARTNER_TTL_MS, 10) || 10 * 60 * 1000;
+const SESSION_BLOCK_TTL_MS = 24 * 60 * 60 * 1000; // Session ids die with the tab; this just bounds memory
+const PERSISTENT_BLOCK_TTL_MS = parseInt(process.env.PERSISTENT_BLOCK_TTL_MS, 10) || 30 * 24 * 60 * 60 * 1000;
+const MAX_PERSISTENT_BLOCKS = 500; // Per identity; the oldest fall out first
+const CLIENT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i; // Clients send a UUID
+const BLOCKS_KEY_PREFIX = 'whimsy:blocks:'; // Sorted set of blocked client ids, scored by when they were blocked
+
+const socketIdentities = new Map(); // Stores socket.id -> { clientId, persistent }
+const recentPartners = createPairMemory(); // clientId -> clientIds they recently chatted with
+const blockedPartners = createPairMemory(); // clientId -> clientIds they blocked
+setInterval(() => {
+    recentPartners.sweep();
+    blockedPartners.sweep();
+}, 60000).unref();
+
+// --- ICE Config ---
+// See iceServers.js for STUN_URLS / TURN_URLS / TURN_SECRET / TURN_TTL_SECONDS
+const getIceServers = createIceServerProvider();
+
+// --- Signaling Config ---
+const SIGNAL_MAX_SDP_LENGTH = parseInt(process.env.MAX_SDP_LENGTH || String(MAX_SDP_LENGTH), 10);
+
+// --- Stats Config ---
+const STATS_BROADCAST_INTERVAL_MS = parseInt(process.env.STATS_BROADCAST_INTERVAL_MS, 10) || 2000;
+let statsTimer = null;
+let lastStats = null; // { online, searching, chatting, pairs, updatedAt }
+
+// --- Session Resumption Config ---
+// How long a dropped chatting user's pairing is kept alive waiting for them to reconnect
+const RESUME_GRACE_MS = parseInt(process.env.RESUME_GRACE_MS, 10) || 30000;
+const MAX_BUFFERED_MESSAGES = 50;
+
+// --- Message Config ---
+const MAX_MESSAGE_ID_LENGTH = 64;
+const MAX_READ_RECEIPT_IDS = 100;
+
+// --- Edit Config ---
+// How long after sending a message its author may still edit or unsend it. The server checks
+// relayed messages; peer-to-peer ones are checked by the receiving client against the same value.
+const EDIT_WINDOW_MS = parseInt(process.env.EDIT_WINDOW_MS, 10) || 5 * 60 * 1000;
+const MAX_TRACKED_MESSAGES = 200; // Per socket; the oldest fall out first
+const sentMessages = new Map(); // Stores socket.id -> Map(message id -> { sentAt, chatStartedAt })
+
+// --- Attachment Config ---
+// Size/type/concurrency limits live in attachments.js, shared with the client
+const fileTransfers = new Map(); // Stores socket.id -> Map(message id -> { partnerId, chunks, nextIndex })
+
+// --- Content Filter Config ---
+// See contentFilters.js for the CONTENT_FILTER_* / LINK_BLOCK_WINDOW_MS / PII_FILTER_ACTION env vars.
+// The config also goes to clients, which run the same chain on peer-to-peer messages.
+const contentFilterConfig = readFilterConfig();
+const contentFilters = createFilters(contentFilterConfig);
+const MODERATION_FLAGS = 'whimsy:moderationFlags';
+const MAX_MODERATION_FLAGS = 1000;
+const MAX_PEER_FLAG_REASONS = 5;
+const MAX_PEER_FLAG_REASON_LENGTH = 100;
+
+// --- Rate Limit Config ---
+// Per-socket token buckets, overridable as "capacity:refillPerSec" (e.g. RATE_LIMIT_MESSAGE=10:1)
+const EVENT_RATE_LIMITS = {
+    message: parseLimit(process.env.RATE_LIMIT_MESSAGE, { capacity: 10, refillPerSec: 1 }),
+    typing: parseLimit(process.env.RATE_LIMIT_TYPING, { capacity: 20, refillPerSec: 2 }),
+    signal: parseLimit(process.env.RATE_LIMIT_SIGNAL, { capacity: 100, refillPerSec: 20 }), // ICE candidates arrive in bursts
+    read: parseLimit(process.env.RATE_LIMIT_READ, { capacity: 20, refillPerSec: 5 }),
+    reaction: parseLimit(process.env.RATE_LIMIT_REACTION, { capacity: 10, refillPerSec: 2 }),
+    edit: parseLimit(process.env.RATE_LIMIT_EDIT, { capacity: 5, refillPerSec: 1 }),
+    unsend: parseLimit(process.env.RATE_LIMIT_UNSEND, { capacity: 5, refillPerSec: 1 }),
+    'file-start': parseLimit(process.env.RATE_LIMIT_FILE_START, { capacity: 5, refillPerSec: 0.5 }),
+    'file-chunk': parseLimit(process.env.RATE_LIMIT_FILE_CHUNK, { capacity: 200, refillPerSec: 100 }), // ~3 MB/s of 32 KB chunks
+    'peer-flag': parseLimit(process.env.RATE_LIMIT_PEER_FLAG, { capacity: 5, refillPerSec: 0.1 }),
+};
+// Events that can also travel over the WebRTC data channel, where the receiving client applies these limits
+const PEER_EVENTS = ['message', 'typing', 'read', 'reaction', 'edit', 'unsend', 'file-start', 'file-chunk'];
+const PEER_RATE_LIMITS = Object.fromEntries(PEER_EVENTS.map((event) => [event, EVENT_RATE_LIMITS[event]]));
+const RATE_LIMIT_WARN_AFTER = parseInt(process.env.RATE_LIMIT_WARN_AFTER, 10) || 3; // violations before warning
+const RATE_LIMIT_DISCONNECT_AFTER = parseInt(process.env.RATE_LIMIT_DISCONNECT_AFTER, 10) || 20; // violations before kicking
+const RATE_LIMIT_VIOLATION_RESET_MS = 60000; // Violation count decays after a quiet minute
+const MAX_CONNECTIONS_PER_IP = parseInt(process.env.MAX_CONNECTIONS_PER_IP, 10) || 10;
+// Reverse proxies in front of the server; X-Forwarded-For is only read when set, as clients can write anything into it
+const TRUST_PROXY_HOPS = parseInt(process.env.TRUST_PROXY_HOPS, 10) || 0;
+
+const connectionsPerIp = new Map(); // Stores client IP -> open socket count
+const rateLimitStats = {
+    blocked: {}, // event -> dropped count
+    warnings: 0,
+    disconnects: 0,
+    rejectedConnections: 0,
+};
+
+const resumeTokens = new Map(); // Stores resume token -> socket.id
+const socketTokens = new Map(); // Stores socket.id -> resume token
+const graceTimers = new Map(); // Stores socket.id -> grace period timeout for dropped users
+const bufferedMessages = new Map(); // Stores socket.id -> messages relayed while they were away
 
 // --- Helper Functions ---
+const normalizeInterests = (raw) => {
+    if (!Array.isArray(raw)) return [];
+    const tags = raw
+        .filter((tag) => typeof tag === 'string')
+        .map((tag) => tag.trim().toLowerCase().replace(/\s+/g, ' '))
+        .filter((tag) => tag.length > 0 && tag.length <= MAX_INTEREST_LENGTH);
+    return [...new Set(tags)].slice(0, MAX_INTERESTS);
+};
+
+const readChatMode = (socket) => {
+    const mode = socket.handshake.auth?.mode;
+    return CHAT_MODES.includes(mode) ? mode : DEFAULT_CHAT_MODE;
+};
+
+const getChatMode = (socketId) => userModes.get(socketId) || DEFAULT_CHAT_MODE;
+const getWaitingList = (socketId) => WAITING_LISTS[getChatMode(socketId)];
+
+const getSharedInterests = (a, b) => {
+    const other = userInterests.get(b) || [];
+    return (userInterests.get(a) || []).filter((tag) => other.includes(tag));
+};
+
+// Stable anonymous identity from the handshake; falls back to the socket id. Only
+// well-formed ids are accepted since persistent ones name a Redis key.
+const readIdentity = (socket) => {
+    const { clientId, persistentId } = socket.handshake.auth || {};
+    if (typeof clientId === 'string' && CLIENT_ID_PATTERN.test(clientId)) {
+        return { clientId: clientId.toLowerCase(), persistent: persistentId === true };
+    }
+    return { clientId: socket.id, persistent: false };
+};
+
+const getClientId = (socketId) => socketIdentities.get(socketId)?.clientId || socketId;
+
+// True if either side blocked the other or they chatted within RECENT_PARTNER_TTL_MS
+const shouldAvoid = (socketId, otherId) => {
+    const a = getClientId(socketId);
+    const b = getClientId(otherId);
+    if (a === b) return true; // Same browser in two tabs
+    return recentPartners.has(a, b) || blockedPartners.has(a, b) || blockedPartners.has(b, a);
+};
+
+// Pull a stable identity's saved blocks from Redis into memory before matchmaking
+const loadPersistentBlocks = async (socketId) => {
+    const identity = socketIdentities.get(socketId);
+    if (!identity?.persistent) return;
+    try {
+        const now = Date.now();
+        const blocked = await redis.zRangeByScoreWithScores(BLOCKS_KEY_PREFIX + identity.clientId, now - PERSISTENT_BLOCK_TTL_MS, '+inf');
+        blocked.forEach(({ value, score }) => blockedPartners.remember(identity.clientId, value, score + PERSISTENT_BLOCK_TTL_MS - now));
+    } catch (err) {
+        console.error(`Error loading blocks for ${socketId}:`, err);
+    }
+};
+
+const blockPartner = async (socketId, partnerId) => {
+    const identity = socketIdentities.get(socketId);
+    const blockedId = getClientId(partnerId);
+    const clientId = getClientId(socketId);
+    console.log(`User ${socketId} blocked ${partnerId}.`);
+
+    blockedPartners.remember(clientId, blockedId, identity?.persistent ? PERSISTENT_BLOCK_TTL_MS : SESSION_BLOCK_TTL_MS);
+    // A partner without a client id is only known by a socket id that never comes back
+    if (!identity?.persistent || blockedId === partnerId) return;
+    try {
+        const key = BLOCKS_KEY_PREFIX + clientId;
+        const now = Date.now();
+        await redis.zAdd(key, { score: now, value: blockedId });
+        await redis.zRemRangeByScore(key, '-inf', now - PERSISTENT_BLOCK_TTL_MS);
+        await redis.zRemRangeByRank(key, 0, -(MAX_PERSISTENT_BLOCKS + 1)); // Keep only the newest
+        await redis.pExpire(key, PERSISTENT_BLOCK_TTL_MS);
+    } catch (err) {
+        console.error(`Error persisting block for ${socketId}:`, err);
+    }
+};
+
+// Untagged users take anyone; tagged users only once their interest window expires
+const acceptsRandomPartner = (socketId) => {
+    const interests = userInterests.get(socketId) || [];
+    return interests.length === 0 || randomEligible.has(socketId);
+};
+
+const computeStats = async () => {
+    let searching = 0;
+    try {
+        const lengths = await Promise.all(Object.values(WAITING_LISTS).map((list) => redis.lLen(list)));
+        searching = lengths.reduce((sum, length) => sum + length, 0);
+    } catch (err) {
+        console.error('Error reading waiting list length for stats:', err);
+    }
+    lastStats = {
+        online: io.engine.clientsCount,
+        searching,
+        chatting: userPartners.size,
+        pairs: Math.floor(userPartners.size / 2),
+        updatedAt: Date.now(),
+    };
+    return lastStats;
+};
+
+// Coalesces bursts of connects/matches into at most one broadcast per interval
+const scheduleStatsBroadcast = () => {
+    if (statsTimer) return;
+    statsTimer = setTimeout(async () => {
+        statsTimer = null;
+        io.emit('stats', await computeStats());
+    }, STATS_BROADCAST_INTERVAL_MS);
+};
+
+const clearFallbackTimer = (socketId) => {
+    const timer = fallbackTimers.get(socketId);
+    if (timer) {
+        clearTimeout(timer);
+        fallbackTimers.delete(socketId);
+    }
+};
+
+const issueResumeToken = (socketId) => {
+    const token = crypto.randomBytes(24).toString('base64url');
+    resumeTokens.set(token, socketId);
+    socketTokens.set(socketId, token);
+    return token;
+};
+
+const revokeResumeToken = (socketId) => {
+    const token = socketTokens.get(socketId);
+    if (token) {
+        resumeTokens.delete(token);
+        socketTokens.delete(socketId);
+    }
+};
+
+const clearGraceTimer = (socketId) => {
+    const timer = graceTimers.get(socketId);
+    if (timer) {
+        clearTimeout(timer);
+        graceTimers.delete(socketId);
+    }
+};
+
+// Keep a dropped user's pairing alive for RESUME_GRACE_MS before tearing it down
+const startGracePeriod = (socketId) => {
+    console.log(`User ${socketId} dropped mid-chat. Holding pairing for ${RESUME_GRACE_MS}ms.`);
+    notifyPartner(socketId, 'partner-reconnecting');
+    graceTimers.set(socketId, setTimeout(() => {
+        graceTimers.delete(socketId);
+        console.log(`Grace period expired for ${socketId}.`);
+        cleanupUser(socketId);
+    }, RESUME_GRACE_MS));
+};
+
+/**
+ * Moves a dropped user's pairing over to their new socket.
+ * Returns false if the token is unknown, expired, or the partner already left.
+ */
+const resumeSession = (socket, token) => {
+    const oldId = resumeTokens.get(token);
+    if (!oldId || !graceTimers.has(oldId)) return false;
+
+    const partnerId = userPartners.get(oldId);
+    clearGraceTimer(oldId);
+    if (!partnerId) {
+        cleanupUser(oldId);
+        return false;
+    }
+
+    console.log(`Resuming session: ${oldId} -> ${socket.id} (partner ${partnerId})`);
+    revokeResumeToken(oldId);
+    userPartners.delete(oldId);
+    userPartners.set(socket.id, partnerId);
+    userPartners.set(partnerId, socket.id);
+    userInterests.set(socket.id, userInterests.get(oldId) || []);
+    userInterests.delete(oldId);
+    userModes.set(socket.id, getChatMode(oldId)); // The chat keeps its mode whatever the new handshake says
+    userModes.delete(oldId);
+    pairStartedAt.set(socket.id, pairStartedAt.get(oldId) || Date.now());
+    pairStartedAt.delete(oldId);
+    if (sentMessages.has(oldId)) sentMessages.set(socket.id, sentMessages.get(oldId));
+    sentMessages.delete(oldId);
+    socketIdentities.delete(oldId);
+
+    const missed = bufferedMessages.get(oldId) || [];
+    bufferedMessages.delete(oldId);
+
+    socket.emit('resumed', {
+        partnerId,
+        sharedInterests: getSharedInterests(socket.id, partnerId),
+        mode: getChatMode(socket.id),
+        chatElapsedMs: Date.now() - (pairStartedAt.get(socket.id) ?? Date.now()), // Elapsed, not a timestamp, so clock skew doesn't matter
+    });
+    missed.forEach((payload) => socket.emit('message', payload));
+    io.to(partnerId).emit('partner-reconnected', { partnerId: socket.id });
+    return true;
+};
+
 const notifyPartner = (socketId, event, payload) => {
     const partnerId = userPartners.get(socketId);
-    if (partnerId) {
+    if (partnerId && graceTimers.has(partnerId)) {
+        // Partner is mid-reconnect: hold chat messages for them, drop transient events
+        if (event === 'message') {
+            const queue = bufferedMessages.get(partnerId) || [];
+            if (queue.length < MAX_BUFFERED_MESSAGES) queue.push(payload);
+            bufferedMessages.set(partnerId, queue);
+        }
+    } else if (partnerId) {
         io.to(partnerId).emit(event, payload);
         // console.log(`Event '${event}' sent from ${socketId} to ${partnerId}`); // Verbose logging
     } else {
@@ -45,93 +373,509 @@ const notifyPartner = (socketId, event, payload) => {
     }
 };
 
+// Remembers when a relayed message was sent, so edits and unsends can be checked against the window
+const trackSentMessage = (socketId, id) => {
+    const tracked = sentMessages.get(socketId) || new Map();
+    tracked.set(id, { sentAt: Date.now(), chatStartedAt: pairStartedAt.get(socketId) });
+    if (tracked.size > MAX_TRACKED_MESSAGES) tracked.delete(tracked.keys().next().value);
+    sentMessages.set(socketId, tracked);
+};
+
+/**
+ * Returns an error code if `id` isn't a message this socket sent in the current chat within the edit window.
+ */
+const checkEditWindow = (socketId, id) => {
+    const sent = sentMessages.get(socketId)?.get(id);
+    if (!sent) return 'messageNotFound';
+    if (sent.chatStartedAt !== pairStartedAt.get(socketId)) return 'messageLocked';
+    if (Date.now() - sent.sentAt > EDIT_WINDOW_MS) return 'editWindowPassed';
+    return null;
+};
+
 const cleanupUser = async (socketId) => {
     console.log(`Cleaning up user: ${socketId}`);
     const partnerId = userPartners.get(socketId);
 
     if (partnerId) {
+        const a = getClientId(socketId);
+        const b = getClientId(partnerId);
+        recentPartners.remember(a, b, RECENT_PARTNER_TTL_MS);
+        recentPartners.remember(b, a, RECENT_PARTNER_TTL_MS);
+
         console.log(`Notifying partner ${partnerId} of disconnect.`);
         io.to(partnerId).emit('partner-disconnected');
         userPartners.delete(partnerId); // Remove partner's link back
+        pairStartedAt.delete(partnerId);
     } else {
         // If no partner, they might be in the waiting list
         try {
-            const removedCount = await redis.lRem(WAITING_LIST, 0, socketId);
+            const removedCount = await redis.lRem(getWaitingList(socketId), 0, socketId);
             if (removedCount > 0) {
-                console.log(`Removed ${socketId} from waiting list.`);
+                console.log(`Removed ${socketId} from ${getChatMode(socketId)} waiting list.`);
             }
         } catch (err) {
             console.error(`Error removing ${socketId} from Redis waiting list:`, err);
         }
     }
 
+    clearFallbackTimer(socketId);
+    clearGraceTimer(socketId);
+    revokeResumeToken(socketId);
+    bufferedMessages.delete(socketId);
+    fileTransfers.delete(socketId);
+    sentMessages.delete(socketId);
+    randomEligible.delete(socketId);
+    userInterests.delete(socketId);
+    userModes.delete(socketId);
+    pairStartedAt.delete(socketId);
+    socketIdentities.delete(socketId);
     userPartners.delete(socketId); // Remove the user themselves
     console.log(`User ${socketId} fully cleaned up. Current partners: ${userPartners.size}`);
+    scheduleStatsBroadcast();
 };
 
-// --- Socket.IO Logic ---
-io.on('connection', async (socket) => {
-    console.log(`User connected: ${socket.id}`);
-    socket.emit('your-id', socket.id); // Inform client of their ID
+const pairUsers = (socketId, partnerId) => {
+    const sharedInterests = getSharedInterests(socketId, partnerId);
+    const mode = getChatMode(socketId);
+    console.log(`Match found: ${socketId} <-> ${partnerId} (${mode}, shared: ${sharedInterests.join(', ') || 'none'})`);
+
+    clearFallbackTimer(socketId);
+    clearFallbackTimer(partnerId);
+    randomEligible.delete(socketId);
+    randomEligible.delete(partnerId);
+    userPartners.set(socketId, partnerId);
+    userPartners.set(partnerId, socketId);
+    const startedAt = Date.now();
+    pairStartedAt.set(socketId, startedAt);
+    pairStartedAt.set(partnerId, startedAt);
+
+    // Notify both users
+    io.to(socketId).emit('matched', { partnerId, sharedInterests, mode });
+    io.to(partnerId).emit('matched', { partnerId: socketId, sharedInterests, mode });
+    console.log(`Match notifications sent. Current partners: ${userPartners.size}`);
+    scheduleStatsBroadcast();
+};
+
+/**
+ * Picks a waiting partner for socketId and removes them from the waiting list for its mode.
+ * Prefers the candidate with the most shared interests, falling back to the
+ * oldest waiting user when both sides accept a random partner.
+ * Throws on Redis errors; returns null if nobody suitable is waiting.
+ */
+const claimPartner = async (socketId) => {
+    const waitingList = getWaitingList(socketId);
+    for (let attempt = 0; attempt < MATCH_CLAIM_ATTEMPTS; attempt++) {
+        const waitingIds = await redis.lRange(waitingList, 0, MATCH_SCAN_LIMIT - 1);
+        const candidates = waitingIds.filter((id) =>
+            id !== socketId && !userPartners.has(id) && !shouldAvoid(socketId, id));
+
+        let partnerId = null;
+        let mostShared = 0;
+        for (const id of candidates) {
+            const shared = getSharedInterests(socketId, id).length;
+            if (shared > mostShared) {
+                partnerId = id;
+                mostShared = shared;
+            }
+        }
+        if (!partnerId && acceptsRandomPartner(socketId)) {
+            partnerId = candidates.find(acceptsRandomPartner) || null;
+        }
+        if (!partnerId) return null;
+
+        // lRem acts as the claim: if it removed nothing, another match took this candidate
+        const removedCount = await redis.lRem(waitingList, 1, partnerId);
+        if (removedCount > 0) return partnerId;
+    }
+    return null;
+};
+
+// Called when a tagged user's interest window expires: retry matching with anyone
+const fallbackToRandom = async (socketId) => {
+    fallbackTimers.delete(socketId);
+    if (userPartners.has(socketId) || !userInterests.has(socketId)) return;
+
+    console.log(`Interest window expired for ${socketId}. Falling back to random matching.`);
+    randomEligible.add(socketId);
 
-    let waitingUserId = null;
+    try {
+        // Take ourselves off the list first so nobody else claims us mid-match
+        const removedCount = await redis.lRem(getWaitingList(socketId), 0, socketId);
+        if (removedCount === 0) return; // Already matched or left
+
+        const partnerId = await claimPartner(socketId);
+        if (partnerId) {
+            pairUsers(socketId, partnerId);
+        } else {
+            await redis.rPush(getWaitingList(socketId), socketId);
+        }
+    } catch (err) {
+        console.error(`Error during random fallback for ${socketId}:`, err);
+        io.to(socketId).emit('server-error', 'matchmakingFailed');
+    }
+};
+
+// Finds a partner for a fresh connection, or queues them on the waiting list
+const matchOrWait = async (socket) => {
+    const interests = userInterests.get(socket.id) || [];
+
+    let partnerId = null;
     try {
         // Try matchmaking
-        waitingUserId = await redis.lPop(WAITING_LIST);
+        partnerId = await claimPartner(socket.id);
     } catch (err) {
-        console.error(`Error popping from Redis waiting list:`, err);
+        console.error(`Error matching from Redis waiting list:`, err);
         // Decide how to handle Redis errors, maybe put user in waiting state
-        socket.emit('server-error', 'Matchmaking unavailable, please try again later.');
+        socket.emit('server-error', 'matchmakingUnavailable');
         // Don't proceed with matching logic if Redis failed
         return;
     }
 
-
-    if (waitingUserId && waitingUserId !== socket.id) {
+    if (partnerId) {
         // --- Match Found ---
-        console.log(`Match found: ${socket.id} <-> ${waitingUserId}`);
-        userPartners.set(socket.id, waitingUserId);
-        userPartners.set(waitingUserId, socket.id);
-
-        // Notify both users
-        io.to(socket.id).emit('matched', { partnerId: waitingUserId });
-        io.to(waitingUserId).emit('matched', { partnerId: socket.id });
-        console.log(`Match notifications sent. Current partners: ${userPartners.size}`);
-
+        pairUsers(socket.id, partnerId);
     } else {
         // --- No Match - Add to Waiting List ---
-        if (waitingUserId === socket.id) {
-             console.warn(`Popped own ID (${socket.id}) from waiting list. Pushing back.`);
-             // This can happen in race conditions or if cleanup failed previously. Push it back.
-             try {
-                 await redis.rPush(WAITING_LIST, socket.id);
-             } catch (pushErr) {
-                 console.error(`Error pushing self back to Redis list:`, pushErr);
-                 socket.emit('server-error', 'Matchmaking issue, please try again.');
-                 return;
-             }
-        }
-        console.log(`No match for ${socket.id}. Adding to waiting list.`);
+        console.log(`No match for ${socket.id}. Adding to ${getChatMode(socket.id)} waiting list.`);
         try {
-             await redis.rPush(WAITING_LIST, socket.id);
+             await redis.rPush(getWaitingList(socket.id), socket.id);
              socket.emit('waiting');
+             scheduleStatsBroadcast();
         } catch(err) {
              console.error(`Error pushing ${socket.id} to Redis waiting list:`, err);
-             socket.emit('server-error', 'Could not join waiting list, please try again.');
+             socket.emit('server-error', 'waitingListFailed');
+        }
+
+        if (interests.length > 0 && socket.connected) {
+            fallbackTimers.set(socket.id, setTimeout(() => fallbackToRandom(socket.id), INTEREST_MATCH_WINDOW_MS));
+        }
+    }
+};
+
+const getClientIp = (socket) => {
+    if (TRUST_PROXY_HOPS <= 0) return socket.handshake.address;
+    const { headers } = socket.handshake;
+    const forwarded = headers['x-forwarded-for'];
+    if (typeof forwarded === 'string') {
+        // Each proxy appends the address it saw, so only the last hops are ours; earlier entries came from the client
+        const chain = forwarded.split(',').map((entry) => entry.trim()).filter(Boolean);
+        return chain[chain.length - TRUST_PROXY_HOPS] || socket.handshake.address;
+    }
+    return typeof headers['x-real-ip'] === 'string' ? headers['x-real-ip'] : socket.handshake.address;
+};
+
+/**
+ * Installs per-event token buckets on a socket. Over-limit events are dropped;
+ * repeat offenders get a 'rate-limited' warning and are eventually disconnected.
+ */
+const applyRateLimits = (socket) => {
+    const limiter = createEventLimiter(EVENT_RATE_LIMITS);
+    let violations = 0;
+    let lastViolationAt = 0;
+
+    socket.use(([event, ...args], next) => {
+        const { allowed, retryAfterMs } = limiter.check(event);
+        if (allowed) return next();
+        if (socket.disconnected) return; // Packets still queued from a socket we already kicked
+
+        const now = Date.now();
+        if (now - lastViolationAt > RATE_LIMIT_VIOLATION_RESET_MS) violations = 0;
+        violations += 1;
+        lastViolationAt = now;
+        rateLimitStats.blocked[event] = (rateLimitStats.blocked[event] || 0) + 1;
+
+        // Let ack-based senders know the event was dropped
+        const ack = args[args.length - 1];
+        if (typeof ack === 'function') ack({ ok: false, error: 'tooFast' });
+
+        if (violations >= RATE_LIMIT_DISCONNECT_AFTER) {
+            console.warn(`Disconnecting ${socket.id} for flooding '${event}'.`);
+            rateLimitStats.disconnects += 1;
+            socket.emit('rate-limited', { event, retryAfterMs, disconnecting: true });
+            socket.disconnect(true);
+        } else if (violations >= RATE_LIMIT_WARN_AFTER) {
+            rateLimitStats.warnings += 1;
+            socket.emit('rate-limited', { event, retryAfterMs, disconnecting: false });
+        }
+    });
+};
+
+// Queue a conversation for moderator review; kept in Redis so it survives restarts and
+// listed for moderators by GET /moderation/flags. socketId sent the text; reportedBy is set
+// when the partner's client flagged a peer-to-peer message the server never saw.
+const flagConversation = async (socketId, reasons, text, reportedBy = null) => {
+    const partnerId = userPartners.get(socketId) || null;
+    console.warn(`Flagging conversation ${socketId} <-> ${partnerId}${reportedBy ? ' (peer report)' : ''}: ${reasons.join('; ')}`);
+    try {
+        await redis.lPush(MODERATION_FLAGS, JSON.stringify({
+            socketId,
+            partnerId,
+            reportedBy,
+            reasons,
+            excerpt: text.slice(0, 200),
+            flaggedAt: new Date().toISOString(),
+        }));
+        await redis.lTrim(MODERATION_FLAGS, 0, MAX_MODERATION_FLAGS - 1);
+    } catch (err) {
+        console.error('Error storing moderation flag:', err);
+    }
+};
+
+// --- Connection Cap ---
+io.use((socket, next) => {
+    const ip = getClientIp(socket);
+    const count = connectionsPerIp.get(ip) || 0;
+    if (count >= MAX_CONNECTIONS_PER_IP) {
+        console.warn(`Rejecting connection from ${ip}: ${count} already open.`);
+        rateLimitStats.rejectedConnections += 1;
+        const err = new Error('Too many connections from your network.');
+        err.data = { error: 'tooManyConnections' };
+        return next(err);
+    }
+    connectionsPerIp.set(ip, count + 1);
+    socket.data.ip = ip;
+    next();
+});
+
+const releaseConnection = (ip) => {
+    const count = (connectionsPerIp.get(ip) || 1) - 1;
+    if (count > 0) connectionsPerIp.set(ip, count);
+    else connectionsPerIp.delete(ip);
+};
+
+// --- HTTP Endpoints ---
+// Moderator-only routes share MODERATOR_TOKEN with the Next.js moderation API and stay
+// disabled until it is configured
+const requireModerator = (req, res, next) => {
+    const token = process.env.MODERATOR_TOKEN;
+    if (!token) {
+        return res.status(503).json({ success: false, message: 'Moderation API is not configured.' });
+    }
+    if (req.get('authorization') !== `Bearer ${token}`) {
+        return res.status(401).json({ success: false, message: 'Unauthorized.' });
+    }
+    next();
+};
+
+// Lightweight stats for clients that aren't connected to a chat socket
+app.get('/stats', async (req, res) => {
+    res.set('Access-Control-Allow-Origin', '*');
+    const stats = lastStats && Date.now() - lastStats.updatedAt < STATS_BROADCAST_INTERVAL_MS
+        ? lastStats
+        : await computeStats();
+    res.json(stats);
+});
+
+// Abuse monitoring counters
+app.get('/stats/rate-limits', requireModerator, (req, res) => {
+    res.json({ ...rateLimitStats, trackedIps: connectionsPerIp.size });
+});
+
+// Conversations the content filters flagged, newest first: GET /moderation/flags?limit=50
+app.get('/moderation/flags', requireModerator, async (req, res) => {
+    const limit = Math.min(parseInt(req.query.limit, 10) || 100, MAX_MODERATION_FLAGS);
+    try {
+        const entries = await redis.lRange(MODERATION_FLAGS, 0, limit - 1);
+        const flags = entries.flatMap((entry) => {
+            try {
+                return [JSON.parse(entry)];
+            } catch {
+                return []; // Skip anything that isn't ours
+            }
+        });
+        res.json({ success: true, flags });
+    } catch (err) {
+        console.error('Error loading moderation flags:', err);
+        res.status(500).json({ success: false, message: 'Could not load moderation flags.' });
+    }
+});
+
+// --- Socket.IO Logic ---
+io.on('connection', async (socket) => {
+    console.log(`User connected: ${socket.id}`);
+    // Registered before any await so early events and drops are still accounted for
+    applyRateLimits(socket);
+    socket.once('disconnect', () => releaseConnection(socket.data.ip));
+    socket.emit('your-id', socket.id, issueResumeToken(socket.id)); // Inform client of their ID
+    socket.emit('ice-servers', getIceServers(socket.id));
+    socket.emit('chat-config', { editWindowMs: EDIT_WINDOW_MS, contentFilters: contentFilterConfig, rateLimits: PEER_RATE_LIMITS });
+    scheduleStatsBroadcast();
+
+    userInterests.set(socket.id, normalizeInterests(socket.handshake.auth?.interests));
+    userModes.set(socket.id, readChatMode(socket));
+    socketIdentities.set(socket.id, readIdentity(socket));
+
+    const requestedToken = socket.handshake.auth?.resumeToken;
+    const resumed = typeof requestedToken === 'string' && resumeSession(socket, requestedToken);
+    if (!resumed) {
+        if (requestedToken) {
+            console.log(`Resume failed for ${socket.id}. Matching as a new user.`);
+            socket.emit('resume-failed');
         }
+        await loadPersistentBlocks(socket.id);
+        await matchOrWait(socket);
     }
 
     // --- Event Handlers ---
 
-    // Handle incoming message
-    socket.on('message', ({ text }) => {
+    // Handle incoming message; ack tells the sender whether it was relayed.
+    // Failed acks carry { error, params? }: a code the client words from its catalog.
+    socket.on('message', (data, ack) => {
+        const respond = typeof ack === 'function' ? ack : () => {};
+        const { id, text } = data || {};
         // Basic validation
-        if (typeof text !== 'string' || text.trim().length === 0 || text.length > 1000) {
+        if (typeof id !== 'string' || id.length === 0 || id.length > MAX_MESSAGE_ID_LENGTH) {
+             console.warn(`Message without valid id received from ${socket.id}`);
+             respond({ ok: false, error: 'invalidMessageId' });
+             return;
+        }
+        if (typeof text !== 'string' || text.trim().length === 0 || text.length > MAX_MESSAGE_LENGTH) {
              console.warn(`Invalid message received from ${socket.id}`);
-             // Optionally notify sender: socket.emit('message-error', 'Invalid message format.');
+             respond({ ok: false, error: 'messageLength', params: { max: MAX_MESSAGE_LENGTH } });
              return;
          }
-        notifyPartner(socket.id, 'message', { text: text.trim() });
+        if (!userPartners.has(socket.id)) {
+             respond({ ok: false, error: 'notConnectedToPartner' });
+             return;
+        }
+
+        const filtered = runContentFilters(contentFilters, {
+            text: text.trim(),
+            chatStartedAt: pairStartedAt.get(socket.id),
+            now: Date.now(),
+        });
+        if (filtered.flags.length > 0) flagConversation(socket.id, filtered.flags, text);
+        if (filtered.rejected) {
+             respond({ ok: false, ...filtered.rejected });
+             return;
+        }
+
+        notifyPartner(socket.id, 'message', { id, text: filtered.text });
+        trackSentMessage(socket.id, id);
+        // Echo masked text back so the sender sees what their partner saw
+        respond(filtered.text === text.trim() ? { ok: true } : { ok: true, text: filtered.text });
+    });
+
+    // Handle edits to our own recent messages; the new text goes through the same filters
+    socket.on('edit', (data, ack) => {
+        const respond = typeof ack === 'function' ? ack : () => {};
+        const { id, text } = data || {};
+        if (typeof id !== 'string' || id.length === 0 || id.length > MAX_MESSAGE_ID_LENGTH) {
+            console.warn(`Edit without valid id received from ${socket.id}`);
+            respond({ ok: false, error: 'messageNotFound' });
+            return;
+        }
+        if (typeof text !== 'string' || text.trim().length === 0 || text.length > MAX_MESSAGE_LENGTH) {
+            console.warn(`Invalid edit received from ${socket.id}`);
+            respond({ ok: false, error: 'messageLength', params: { max: MAX_MESSAGE_LENGTH } });
+            return;
+        }
+        const windowError = checkEditWindow(socket.id, id);
+        if (windowError) {
+            respond({ ok: false, error: windowError });
+            return;
+        }
+
+        const filtered = runContentFilters(contentFilters, {
+            text: text.trim(),
+            chatStartedAt: pairStartedAt.get(socket.id),
+            now: Date.now(),
+        });
+        if (filtered.flags.length > 0) flagConversation(socket.id, filtered.flags, text);
+        if (filtered.rejected) {
+            respond({ ok: false, ...filtered.rejected });
+            return;
+        }
+
+        notifyPartner(socket.id, 'edit', { id, text: filtered.text });
+        respond(filtered.text === text.trim() ? { ok: true } : { ok: true, text: filtered.text });
+    });
+
+    // Handle retracting one of our own recent messages
+    socket.on('unsend', (data, ack) => {
+        const respond = typeof ack === 'function' ? ack : () => {};
+        const id = data?.id;
+        if (typeof id !== 'string' || id.length === 0 || id.length > MAX_MESSAGE_ID_LENGTH) {
+            console.warn(`Invalid unsend received from ${socket.id}`);
+            respond({ ok: false, error: 'messageNotFound' });
+            return;
+        }
+        const windowError = checkEditWindow(socket.id, id);
+        if (windowError) {
+            respond({ ok: false, error: windowError });
+            return;
+        }
+        sentMessages.get(socket.id).delete(id);
+        notifyPartner(socket.id, 'unsend', { id });
+        respond({ ok: true });
+    });
+
+    // Handle read receipts for messages the partner sent us
+    socket.on('read', (data) => {
+        const ids = data?.ids;
+        if (!Array.isArray(ids) || ids.length === 0 || ids.length > MAX_READ_RECEIPT_IDS
+            || !ids.every((id) => typeof id === 'string' && id.length <= MAX_MESSAGE_ID_LENGTH)) {
+            console.warn(`Invalid read receipt received from ${socket.id}`);
+            return;
+        }
+        notifyPartner(socket.id, 'read', { ids });
+    });
+
+    // Handle emoji reactions to a message either of us sent
+    socket.on('reaction', (data) => {
+        const result = validateReaction(data);
+        if (!result.ok) {
+            console.warn(`Invalid reaction received from ${socket.id}`);
+            return;
+        }
+        notifyPartner(socket.id, 'reaction', result.value);
+    });
+
+    // Handle file transfers: a file-start announces the file, then its chunks follow in order
+    socket.on('file-start', (data, ack) => {
+        const respond = typeof ack === 'function' ? ack : () => {};
+        const result = validateFileStart(data);
+        if (!result.ok) {
+            console.warn(`Invalid file transfer from ${socket.id}: ${result.error}`);
+            respond(result);
+            return;
+        }
+        const partnerId = userPartners.get(socket.id);
+        if (!partnerId) {
+            respond({ ok: false, error: 'notConnectedToPartner' });
+            return;
+        }
+        const transfers = fileTransfers.get(socket.id) || new Map();
+        if (transfers.size >= MAX_ACTIVE_TRANSFERS && !transfers.has(result.value.id)) {
+            respond({ ok: false, error: 'tooManyTransfers' });
+            return;
+        }
+        transfers.set(result.value.id, { partnerId, chunks: result.value.chunks, nextIndex: 0 });
+        fileTransfers.set(socket.id, transfers);
+        notifyPartner(socket.id, 'file-start', result.value);
+        respond({ ok: true });
+    });
+
+    socket.on('file-chunk', (data, ack) => {
+        const respond = typeof ack === 'function' ? ack : () => {};
+        const result = validateFileChunk(data);
+        const transfers = fileTransfers.get(socket.id);
+        const transfer = result.ok ? transfers?.get(result.value.id) : undefined;
+        if (!result.ok || !transfer || result.value.index !== transfer.nextIndex) {
+            console.warn(`Invalid file chunk received from ${socket.id}`);
+            respond({ ok: false, error: 'invalidChunk' });
+            return;
+        }
+        if (userPartners.get(socket.id) !== transfer.partnerId) {
+            // The chat ended mid-transfer; don't leak the rest to a new partner
+            transfers.delete(result.value.id);
+            respond({ ok: false, error: 'notConnectedToPartner' });
+            return;
+        }
+        transfer.nextIndex += 1;
+        if (transfer.nextIndex === transfer.chunks) transfers.delete(result.value.id);
+        notifyPartner(socket.id, 'file-chunk', result.value);
+        respond({ ok: true });
     });
 
     // Handle typing events
@@ -146,9 +890,21 @@ io.on('connection', async (socket) => {
 
     // Handle WebRTC signaling
     socket.on('signal', (payload) => {
-        // Add validation if needed (e.g., check payload structure)
-        // console.log(`Relaying signal from ${socket.id}`); // Verbose
-        notifyPartner(socket.id, 'signal', payload);
+        const result = validateSignal(payload, { maxSdpLength: SIGNAL_MAX_SDP_LENGTH });
+        if (!result.ok) {
+            console.warn(`Rejected signal from ${socket.id}: ${result.detail}`);
+            socket.emit('signal-error', { type: typeof payload?.type === 'string' ? payload.type.slice(0, 32) : null, error: result.error });
+            return;
+        }
+        const partnerId = userPartners.get(socket.id);
+        if (!partnerId) return;
+        if (getChatMode(socket.id) !== 'video') {
+            // Text-only users never get a call, even from a modified client
+            socket.emit('signal-error', { type: result.signal.type, error: 'videoUnavailable' });
+            return;
+        }
+        // Never trust client-supplied ids
+        notifyPartner(socket.id, 'signal', { ...result.signal, sender: socket.id, target: partnerId });
     });
 
     // Handle explicit disconnect request (e.g., user clicks "End Chat")
@@ -160,10 +916,39 @@ io.on('connection', async (socket) => {
         // socket.disconnect(true);
     });
 
+    // Handle a flag raised by this client's filters on a message the partner sent over the data channel
+    socket.on('peer-flag', (data) => {
+        const partnerId = userPartners.get(socket.id);
+        const { reasons, excerpt } = data || {};
+        if (!partnerId || !Array.isArray(reasons) || reasons.length === 0 || reasons.length > MAX_PEER_FLAG_REASONS
+            || !reasons.every((reason) => typeof reason === 'string' && reason.length <= MAX_PEER_FLAG_REASON_LENGTH)
+            || typeof excerpt !== 'string' || excerpt.length > MAX_MESSAGE_LENGTH) {
+            console.warn(`Invalid peer flag received from ${socket.id}`);
+            return;
+        }
+        flagConversation(partnerId, reasons, excerpt, socket.id);
+    });
+
+    // Handle "block this stranger": remember it, then end the chat like a leave
+    socket.on('block', async () => {
+        const partnerId = userPartners.get(socket.id);
+        if (!partnerId) return;
+        await blockPartner(socket.id, partnerId);
+        cleanupUser(socket.id);
+    });
+
     // Handle disconnection
     socket.on('disconnect', (reason) => {
         console.log(`User disconnected: ${socket.id}, Reason: ${reason}`);
-        cleanupUser(socket.id); // Use the cleanup function
+        // Transport drops (network switch, sleep) may come back; deliberate disconnects won't.
+        // Clients disconnect cleanly on pagehide, so closing a tab doesn't start a grace period.
+        const intentional = reason === 'client namespace disconnect' || reason === 'server namespace disconnect';
+        if (!intentional && userPartners.has(socket.id)) {
+            startGracePeriod(socket.id);
+            scheduleStatsBroadcast();
+        } else {
+            cleanupUser(socket.id); // Use the cleanup function
+        }
     });
 });
 
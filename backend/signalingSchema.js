@@ -0,0 +1,98 @@
+// backend/signalingSchema.js
+// Shared by server.js and the Next.js client (src/lib/signaling.ts), so keep
+// it dependency-free CommonJS.
+
+/**
+ * WebRTC signaling schema. Each signal is { type, payload }; the server adds
+ * sender/target itself. validateSignal returns a clean copy containing only
+ * known fields, or an error code plus a `detail` describing why the signal was
+ * refused. The detail is English and meant for logs only.
+ */
+
+const MAX_SDP_LENGTH = 32 * 1024; // Audio+video offers are a few KB; anything near this is abuse
+const MAX_CANDIDATE_LENGTH = 1024;
+const MAX_MID_LENGTH = 64;
+
+const isPlainObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value, maxLength) =>
+    value === undefined || value === null || (typeof value === 'string' && value.length <= maxLength);
+
+const sessionDescription = (expectedType) => (payload, { maxSdpLength }) => {
+    if (!isPlainObject(payload)) return { error: 'payload must be a session description' };
+    if (payload.type !== expectedType) return { error: `payload.type must be "${expectedType}"` };
+    if (typeof payload.sdp !== 'string' || payload.sdp.length === 0) return { error: 'payload.sdp must be a non-empty string' };
+    if (payload.sdp.length > maxSdpLength) return { error: `SDP exceeds ${maxSdpLength} characters` };
+    return { value: { type: payload.type, sdp: payload.sdp } };
+};
+
+const iceCandidate = (payload) => {
+    if (!isPlainObject(payload)) return { error: 'payload must be an ICE candidate' };
+    // An empty candidate string is the standard end-of-candidates marker
+    if (typeof payload.candidate !== 'string' || payload.candidate.length > MAX_CANDIDATE_LENGTH) {
+        return { error: 'payload.candidate must be a string' };
+    }
+    if (!optionalString(payload.sdpMid, MAX_MID_LENGTH)) return { error: 'payload.sdpMid must be a string' };
+    if (!optionalString(payload.usernameFragment, MAX_MID_LENGTH)) return { error: 'payload.usernameFragment must be a string' };
+    const { sdpMLineIndex } = payload;
+    if (sdpMLineIndex !== undefined && sdpMLineIndex !== null
+        && !(Number.isInteger(sdpMLineIndex) && sdpMLineIndex >= 0 && sdpMLineIndex < 256)) {
+        return { error: 'payload.sdpMLineIndex must be a small non-negative integer' };
+    }
+    if (payload.sdpMid == null && sdpMLineIndex == null) return { error: 'payload needs sdpMid or sdpMLineIndex' };
+    return {
+        value: {
+            candidate: payload.candidate,
+            sdpMid: payload.sdpMid ?? null,
+            sdpMLineIndex: sdpMLineIndex ?? null,
+            usernameFragment: payload.usernameFragment ?? null,
+        },
+    };
+};
+
+// Which of the sender's tracks are enabled; lets the partner show mute/camera-off badges
+const mediaState = (payload) => {
+    if (!isPlainObject(payload) || typeof payload.audio !== 'boolean' || typeof payload.video !== 'boolean') {
+        return { error: 'payload must be { audio: boolean, video: boolean }' };
+    }
+    return { value: { audio: payload.audio, video: payload.video } };
+};
+
+// Sender started/stopped sharing their screen; the partner switches to a contain-fit layout
+const screenShare = (payload) => {
+    if (!isPlainObject(payload) || typeof payload.active !== 'boolean') return { error: 'payload must be { active: boolean }' };
+    return { value: { active: payload.active } };
+};
+
+const noPayload = (payload) =>
+    payload === undefined || payload === null ? { value: null } : { error: 'payload must be empty' };
+
+// Signal type -> payload validator
+const SIGNAL_SCHEMAS = {
+    'video-offer': sessionDescription('offer'),
+    'video-answer': sessionDescription('answer'),
+    'ice-candidate': iceCandidate,
+    'media-state': mediaState,
+    'screen-share': screenShare,
+    bye: noPayload,
+};
+
+const SIGNAL_TYPES = Object.keys(SIGNAL_SCHEMAS);
+
+/**
+ * Validates a signal. Returns { ok: true, signal: { type, payload } } or
+ * { ok: false, error, detail }. Any sender/target on the input is dropped.
+ */
+const validateSignal = (signal, { maxSdpLength = MAX_SDP_LENGTH } = {}) => {
+    if (!isPlainObject(signal)) return { ok: false, error: 'invalidSignal', detail: 'Signal must be an object' };
+    const schema = Object.prototype.hasOwnProperty.call(SIGNAL_SCHEMAS, signal.type) ? SIGNAL_SCHEMAS[signal.type] : null;
+    if (!schema) {
+        return { ok: false, error: 'unknownSignalType', detail: `Unknown signal type: ${String(signal.type).slice(0, 32)}` };
+    }
+
+    const result = schema(signal.payload, { maxSdpLength });
+    if (result.error) return { ok: false, error: 'invalidSignal', detail: `Invalid ${signal.type} signal: ${result.error}` };
+    return { ok: true, signal: { type: signal.type, payload: result.value } };
+};
+
+module.exports = { MAX_SDP_LENGTH, SIGNAL_TYPES, validateSignal };
@@ -0,0 +1,73 @@
+// backend/test/attachments.test.js
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const {
+    MAX_ATTACHMENT_BYTES,
+    ATTACHMENT_CHUNK_BYTES,
+    chunkCount,
+    checkAttachment,
+    validateFileStart,
+    validateFileChunk,
+} = require('../attachments');
+
+const start = (overrides = {}) => ({ id: 'msg-1', name: 'cat.png', mime: 'image/png', size: 1000, chunks: 1, ...overrides });
+
+test('checkAttachment enforces the type whitelist and size limit', () => {
+    assert.equal(checkAttachment('image/png', 1), null);
+    assert.equal(checkAttachment('application/pdf', MAX_ATTACHMENT_BYTES), null);
+    assert.deepEqual(checkAttachment('image/svg+xml', 100), { error: 'fileTypeNotAllowed' });
+    assert.deepEqual(checkAttachment('text/html', 100), { error: 'fileTypeNotAllowed' });
+    assert.deepEqual(checkAttachment('image/png', 0), { error: 'fileEmpty' });
+    assert.deepEqual(checkAttachment('image/png', 1.5), { error: 'fileEmpty' });
+    assert.deepEqual(checkAttachment('image/png', MAX_ATTACHMENT_BYTES + 1), { error: 'fileTooLarge', params: { maxMb: 5 } });
+});
+
+test('chunkCount rounds up to whole chunks', () => {
+    assert.equal(chunkCount(1), 1);
+    assert.equal(chunkCount(ATTACHMENT_CHUNK_BYTES), 1);
+    assert.equal(chunkCount(ATTACHMENT_CHUNK_BYTES + 1), 2);
+});
+
+test('validateFileStart accepts a well-formed start and drops extra fields', () => {
+    assert.deepEqual(validateFileStart({ ...start(), extra: true }), { ok: true, value: start() });
+});
+
+test('validateFileStart sanitizes file names', () => {
+    assert.equal(validateFileStart(start({ name: '../../etc/passwd' })).value.name, '.._.._etc_passwd');
+    assert.equal(validateFileStart(start({ name: 'a\u0000b\nc' })).value.name, 'a_b_c');
+    assert.equal(validateFileStart(start({ name: '   ' })).value.name, 'file');
+    assert.equal(validateFileStart(start({ name: 'x'.repeat(500) })).value.name.length, 120);
+});
+
+test('validateFileStart refuses bad ids, types, sizes and chunk counts', () => {
+    const bad = [
+        null,
+        start({ id: '' }),
+        start({ id: 'x'.repeat(65) }),
+        start({ name: 42 }),
+        start({ mime: 'image/svg+xml' }),
+        start({ size: MAX_ATTACHMENT_BYTES + 1, chunks: chunkCount(MAX_ATTACHMENT_BYTES + 1) }),
+        start({ chunks: 2 }),
+        start({ size: ATTACHMENT_CHUNK_BYTES * 2, chunks: 1 }),
+    ];
+    for (const data of bad) assert.equal(validateFileStart(data).ok, false, JSON.stringify(data)?.slice(0, 80));
+    assert.deepEqual(validateFileStart(start({ mime: 'text/html' })), { ok: false, error: 'fileTypeNotAllowed' });
+    assert.deepEqual(validateFileStart(start({ chunks: 2 })), { ok: false, error: 'invalidTransfer' });
+});
+
+test('validateFileChunk checks shape, base64 and size', () => {
+    assert.deepEqual(validateFileChunk({ id: 'msg-1', index: 0, data: 'aGVsbG8=' }), {
+        ok: true,
+        value: { id: 'msg-1', index: 0, data: 'aGVsbG8=' },
+    });
+    const tooLong = 'A'.repeat(Math.ceil(ATTACHMENT_CHUNK_BYTES / 3) * 4 + 4);
+    const bad = [
+        { id: 'msg-1', index: -1, data: 'aGk=' },
+        { id: 'msg-1', index: 0.5, data: 'aGk=' },
+        { id: 'msg-1', index: 0, data: '' },
+        { id: 'msg-1', index: 0, data: 'not base64!' },
+        { id: 'msg-1', index: 0, data: tooLong },
+        { index: 0, data: 'aGk=' },
+    ];
+    for (const data of bad) assert.equal(validateFileChunk(data).ok, false, JSON.stringify(data).slice(0, 80));
+});
@@ -0,0 +1,9 @@
+// backend/test/clock.js
+// Modules under test read Date.now(); tests move this clock by hand
+const useClock = (t, start = 1_000_000) => {
+    const clock = { now: start };
+    t.mock.method(Date, 'now', () => clock.now);
+    return clock;
+};
+
+module.exports = { useClock };
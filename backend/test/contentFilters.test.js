@@ -0,0 +1,109 @@
+// backend/test/contentFilters.test.js
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const {
+    createWordListFilter,
+    createLinkFilter,
+    createPiiFilter,
+    createDefaultFilters,
+    runContentFilters,
+} = require('../contentFilters');
+
+const NOW = 1_000_000;
+
+test('word list filter masks whole words only, case-insensitively', () => {
+    const filter = createWordListFilter({ words: ['darn', ' heck '] });
+    assert.deepEqual(filter({ text: 'Darn it, what the HECK' }), { action: 'mask', text: '**** it, what the ****', flag: undefined });
+    assert.equal(filter({ text: 'darned heckles' }), undefined);
+});
+
+test('word list filter can reject and flag', () => {
+    const filter = createWordListFilter({ words: ['darn'], action: 'reject', flag: true });
+    const result = filter({ text: 'darn' });
+    assert.equal(result.action, 'reject');
+    assert.equal(result.error, 'blockedWords');
+    assert.equal(result.flag, 'Blocked word used');
+});
+
+test('word list filter is skipped when no words are configured', () => {
+    assert.equal(createWordListFilter({ words: ['', '  '] }), null);
+});
+
+test('link filter rejects links only inside the window', () => {
+    const filter = createLinkFilter({ windowMs: 60000 });
+    const early = filter({ text: 'see example.com', chatStartedAt: NOW - 10000, now: NOW });
+    assert.equal(early.action, 'reject');
+    assert.equal(early.error, 'linksTooSoon');
+    assert.deepEqual(early.params, { seconds: 50 });
+    assert.equal(filter({ text: 'see https://example.com/x', chatStartedAt: NOW - 60000, now: NOW }), undefined);
+    assert.equal(filter({ text: 'no links here', chatStartedAt: NOW, now: NOW }), undefined);
+    assert.equal(createLinkFilter({ windowMs: 0 }), null);
+});
+
+test('PII filter masks emails and phone-shaped numbers', () => {
+    const filter = createPiiFilter({});
+    for (const phone of ['555-123-4567', '(555) 123 4567', '+1 (555) 123-4567', '+44 20 7946 0958', '+15551234567', '06 12 34 56 78']) {
+        assert.deepEqual(filter({ text: `call ${phone} now` }), { action: 'mask', text: 'call [number removed] now' }, phone);
+    }
+    assert.deepEqual(filter({ text: 'mail me at a.b@example.org' }), { action: 'mask', text: 'mail me at [email removed]' });
+});
+
+test('PII filter leaves dates, times and other numbers alone', () => {
+    const filter = createPiiFilter({});
+    for (const text of [
+        'see you 2024-10-19 17:13',
+        'on 19.10.2024 at 10:30',
+        '10/19/2024',
+        'order 123456789',
+        'ORD-2024-0001234',
+        'order #1234-5678-9012',
+        'server at 192.168.1.100',
+        'it costs 1,299.99',
+        'between 1990-2020',
+        'I scored 1234567890 points',
+    ]) {
+        assert.equal(filter({ text }), undefined, text);
+    }
+});
+
+test('PII filter can reject or be turned off', () => {
+    assert.deepEqual(createPiiFilter({ action: 'reject' })({ text: '555-123-4567' }), { action: 'reject', error: 'contactInfo' });
+    assert.equal(createPiiFilter({ action: 'off' }), null);
+});
+
+test('chain applies masks in order and stops at the first rejection', () => {
+    const seen = [];
+    const filters = [
+        () => ({ action: 'mask', text: 'masked' }),
+        ({ text }) => { seen.push(text); return { action: 'flag', reason: 'suspicious' }; },
+        () => ({ action: 'reject', error: 'nope', params: { n: 1 }, flag: 'rejected' }),
+        () => { throw new Error('never reached'); },
+    ];
+    assert.deepEqual(runContentFilters(filters, { text: 'original' }), {
+        text: 'masked',
+        rejected: { error: 'nope', params: { n: 1 } },
+        flags: ['suspicious', 'rejected'],
+    });
+    assert.deepEqual(seen, ['masked']);
+});
+
+test('chain skips a filter that throws', (t) => {
+    t.mock.method(console, 'error', () => {});
+    const filters = [() => { throw new Error('boom'); }, () => ({ action: 'mask', text: 'ok' })];
+    assert.deepEqual(runContentFilters(filters, { text: 'x' }), { text: 'ok', rejected: null, flags: [] });
+});
+
+test('default chain reads its settings from env', () => {
+    const filters = createDefaultFilters({
+        CONTENT_FILTER_WORDS: 'darn',
+        CONTENT_FILTER_WORD_ACTION: 'reject',
+        LINK_BLOCK_WINDOW_MS: '0',
+    });
+    assert.equal(filters.length, 2); // Link filter disabled
+    assert.deepEqual(runContentFilters(filters, { text: 'darn', chatStartedAt: NOW, now: NOW }).rejected, { error: 'blockedWords' });
+    assert.deepEqual(runContentFilters(createDefaultFilters({}), { text: 'hi there', chatStartedAt: NOW, now: NOW }), {
+        text: 'hi there',
+        rejected: null,
+        flags: [],
+    });
+});
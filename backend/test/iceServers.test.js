@@ -0,0 +1,51 @@
+// backend/test/iceServers.test.js
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { createIceServerProvider, createTurnCredential, validateTurnCredential } = require('../iceServers');
+
+const SECRET = 'test-secret';
+const NOW = Date.UTC(2025, 0, 1);
+
+test('credentials validate against the same secret until they expire', () => {
+    const { username, credential } = createTurnCredential(SECRET, 'socket-1', 3600, NOW);
+    assert.equal(username, `${NOW / 1000 + 3600}:socket-1`);
+    assert.equal(validateTurnCredential(SECRET, username, credential, NOW), true);
+    assert.equal(validateTurnCredential(SECRET, username, credential, NOW + 3600 * 1000), true);
+    assert.equal(validateTurnCredential(SECRET, username, credential, NOW + 3601 * 1000), false);
+});
+
+test('tampered credentials are refused', () => {
+    const { username, credential } = createTurnCredential(SECRET, 'socket-1', 3600, NOW);
+    const [expiry] = username.split(':');
+    // Pushing the expiry out, or claiming another user, breaks the HMAC
+    assert.equal(validateTurnCredential(SECRET, `${Number(expiry) + 86400}:socket-1`, credential, NOW), false);
+    assert.equal(validateTurnCredential(SECRET, `${expiry}:socket-2`, credential, NOW), false);
+    assert.equal(validateTurnCredential('other-secret', username, credential, NOW), false);
+    assert.equal(validateTurnCredential(SECRET, username, credential.slice(0, -2), NOW), false);
+    assert.equal(validateTurnCredential(SECRET, username, undefined, NOW), false);
+    assert.equal(validateTurnCredential(SECRET, 'not-a-username', credential, NOW), false);
+});
+
+test('provider offers STUN by default and TURN only with a secret', (t) => {
+    t.mock.method(console, 'warn', () => {});
+    assert.deepEqual(createIceServerProvider({})('socket-1'), [
+        { urls: ['stun:stun.l.google.com:19302', 'stun:stun1.l.google.com:19302'] },
+    ]);
+    assert.deepEqual(createIceServerProvider({ STUN_URLS: '', TURN_URLS: 'turn:localhost:3478' })('socket-1'), []);
+    assert.equal(console.warn.mock.callCount(), 1);
+});
+
+test('provider issues TURN credentials a coturn-style server accepts', () => {
+    const getIceServers = createIceServerProvider({
+        STUN_URLS: 'stun:localhost:3478',
+        TURN_URLS: 'turn:localhost:3478, turns:localhost:5349',
+        TURN_SECRET: SECRET,
+        TURN_TTL_SECONDS: '60',
+    });
+    const [stun, turn] = getIceServers('socket-1');
+    assert.deepEqual(stun, { urls: ['stun:localhost:3478'] });
+    assert.deepEqual(turn.urls, ['turn:localhost:3478', 'turns:localhost:5349']);
+    assert.match(turn.username, /^\d+:socket-1$/);
+    assert.equal(validateTurnCredential(SECRET, turn.username, turn.credential), true);
+    assert.equal(validateTurnCredential(SECRET, turn.username, turn.credential, Date.now() + 61 * 1000), false);
+});
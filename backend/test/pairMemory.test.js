@@ -0,0 +1,47 @@
+// backend/test/pairMemory.test.js
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { createPairMemory } = require('../pairMemory');
+const { useClock } = require('./clock');
+
+test('remembers pairs in one direction only', (t) => {
+    useClock(t);
+    const memory = createPairMemory();
+    memory.remember('alice', 'bob', 1000);
+    assert.equal(memory.has('alice', 'bob'), true);
+    assert.equal(memory.has('bob', 'alice'), false);
+    assert.equal(memory.has('alice', 'carol'), false);
+});
+
+test('forgets a pair once its TTL has passed', (t) => {
+    const clock = useClock(t);
+    const memory = createPairMemory();
+    memory.remember('alice', 'bob', 1000);
+    clock.now += 999;
+    assert.equal(memory.has('alice', 'bob'), true);
+    clock.now += 1;
+    assert.equal(memory.has('alice', 'bob'), false);
+});
+
+test('remembering again extends the TTL', (t) => {
+    const clock = useClock(t);
+    const memory = createPairMemory();
+    memory.remember('alice', 'bob', 1000);
+    clock.now += 800;
+    memory.remember('alice', 'bob', 1000);
+    clock.now += 800;
+    assert.equal(memory.has('alice', 'bob'), true);
+});
+
+test('sweep drops expired entries and keeps live ones', (t) => {
+    const clock = useClock(t);
+    const memory = createPairMemory();
+    memory.remember('alice', 'bob', 1000);
+    memory.remember('alice', 'carol', 5000);
+    memory.remember('dave', 'erin', 1000);
+    clock.now += 2000;
+    memory.sweep();
+    assert.equal(memory.has('alice', 'bob'), false);
+    assert.equal(memory.has('alice', 'carol'), true);
+    assert.equal(memory.has('dave', 'erin'), false);
+});
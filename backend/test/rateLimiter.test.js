@@ -0,0 +1,66 @@
+// backend/test/rateLimiter.test.js
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { createTokenBucket, createEventLimiter, parseLimit } = require('../rateLimiter');
+const { useClock } = require('./clock');
+
+test('token bucket allows a burst up to capacity, then refuses', (t) => {
+    useClock(t);
+    const bucket = createTokenBucket({ capacity: 3, refillPerSec: 1 });
+    assert.equal(bucket.take(), true);
+    assert.equal(bucket.take(), true);
+    assert.equal(bucket.take(), true);
+    assert.equal(bucket.take(), false);
+});
+
+test('token bucket refills over time but never above capacity', (t) => {
+    const clock = useClock(t);
+    const bucket = createTokenBucket({ capacity: 2, refillPerSec: 2 });
+    bucket.take();
+    bucket.take();
+    assert.equal(bucket.take(), false);
+
+    clock.now += 500; // One token at 2/s
+    assert.equal(bucket.take(), true);
+    assert.equal(bucket.take(), false);
+
+    clock.now += 60_000;
+    assert.equal(bucket.take(), true);
+    assert.equal(bucket.take(), true);
+    assert.equal(bucket.take(), false);
+});
+
+test('retryAfterMs reports the wait for the next token', (t) => {
+    const clock = useClock(t);
+    const bucket = createTokenBucket({ capacity: 1, refillPerSec: 0.5 });
+    assert.equal(bucket.retryAfterMs(), 0);
+    bucket.take();
+    assert.equal(bucket.retryAfterMs(), 2000);
+    clock.now += 1500;
+    assert.equal(bucket.retryAfterMs(), 500);
+});
+
+test('event limiter keeps a separate bucket per event and allows unlisted events', (t) => {
+    useClock(t);
+    const limiter = createEventLimiter({
+        message: { capacity: 1, refillPerSec: 1 },
+        typing: { capacity: 1, refillPerSec: 1 },
+    });
+    assert.deepEqual(limiter.check('message'), { allowed: true, retryAfterMs: 0 });
+    assert.deepEqual(limiter.check('message'), { allowed: false, retryAfterMs: 1000 });
+    assert.equal(limiter.check('typing').allowed, true);
+    for (let i = 0; i < 100; i++) {
+        assert.equal(limiter.check('read').allowed, true);
+    }
+});
+
+test('parseLimit reads "capacity:refillPerSec" and falls back on bad values', (t) => {
+    t.mock.method(console, 'warn', () => {});
+    const fallback = { capacity: 10, refillPerSec: 1 };
+    assert.deepEqual(parseLimit('20:0.5', fallback), { capacity: 20, refillPerSec: 0.5 });
+    assert.equal(parseLimit(undefined, fallback), fallback);
+    assert.equal(parseLimit('', fallback), fallback);
+    assert.equal(parseLimit('ten:1', fallback), fallback);
+    assert.equal(parseLimit('5:0', fallback), fallback);
+    assert.equal(parseLimit('-1:2', fallback), fallback);
+});
@@ -0,0 +1,35 @@
+// backend/test/reactions.test.js
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { REACTION_EMOJIS, validateReaction } = require('../reactions');
+
+test('accepts every whitelisted emoji, adding or taking back', () => {
+    for (const emoji of REACTION_EMOJIS) {
+        for (const active of [true, false]) {
+            assert.deepEqual(validateReaction({ messageId: 'msg-1', emoji, active, extra: 'dropped' }), {
+                ok: true,
+                value: { messageId: 'msg-1', emoji, active },
+            });
+        }
+    }
+});
+
+test('refuses emoji outside the whitelist', () => {
+    for (const emoji of ['👎', '❤', 'lol', '', '👍👍', '<script>']) {
+        assert.equal(validateReaction({ messageId: 'msg-1', emoji, active: true }).ok, false, emoji);
+    }
+});
+
+test('refuses bad message ids and flags', () => {
+    const bad = [
+        null,
+        'msg-1',
+        { emoji: '👍', active: true },
+        { messageId: '', emoji: '👍', active: true },
+        { messageId: 'x'.repeat(65), emoji: '👍', active: true },
+        { messageId: 42, emoji: '👍', active: true },
+        { messageId: 'msg-1', emoji: '👍', active: 'yes' },
+        { messageId: 'msg-1', emoji: '👍' },
+    ];
+    for (const data of bad) assert.deepEqual(validateReaction(data), { ok: false, error: 'invalidReaction' }, JSON.stringify(data));
+});
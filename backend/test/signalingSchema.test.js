@@ -0,0 +1,69 @@
+// backend/test/signalingSchema.test.js
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { MAX_SDP_LENGTH, SIGNAL_TYPES, validateSignal } = require('../signalingSchema');
+
+const offer = { type: 'video-offer', payload: { type: 'offer', sdp: 'v=0\r\n' } };
+
+test('accepts each known signal type and returns a clean copy', () => {
+    assert.deepEqual(validateSignal({ ...offer, sender: 'spoofed', target: 'someone-else' }), {
+        ok: true,
+        signal: { type: 'video-offer', payload: { type: 'offer', sdp: 'v=0\r\n' } },
+    });
+    assert.equal(validateSignal({ type: 'video-answer', payload: { type: 'answer', sdp: 'v=0' } }).ok, true);
+    assert.deepEqual(validateSignal({ type: 'media-state', payload: { audio: true, video: false, extra: 1 } }).signal.payload, { audio: true, video: false });
+    assert.deepEqual(validateSignal({ type: 'screen-share', payload: { active: true } }).signal.payload, { active: true });
+    assert.deepEqual(validateSignal({ type: 'bye' }).signal, { type: 'bye', payload: null });
+    assert.deepEqual(SIGNAL_TYPES.sort(), ['bye', 'ice-candidate', 'media-state', 'screen-share', 'video-answer', 'video-offer']);
+});
+
+test('normalizes ICE candidates and allows the end-of-candidates marker', () => {
+    assert.deepEqual(validateSignal({ type: 'ice-candidate', payload: { candidate: 'candidate:1 1 udp 1 1.2.3.4 5 typ host', sdpMid: '0' } }).signal.payload, {
+        candidate: 'candidate:1 1 udp 1 1.2.3.4 5 typ host',
+        sdpMid: '0',
+        sdpMLineIndex: null,
+        usernameFragment: null,
+    });
+    assert.equal(validateSignal({ type: 'ice-candidate', payload: { candidate: '', sdpMLineIndex: 0 } }).ok, true);
+});
+
+test('rejects non-objects and unknown or inherited types', () => {
+    for (const signal of [null, 'video-offer', [offer], { type: 'toString' }, { type: '__proto__' }, { type: 'hangup' }]) {
+        assert.equal(validateSignal(signal).ok, false, JSON.stringify(signal));
+    }
+    const unknown = validateSignal({ type: 'x'.repeat(100) });
+    assert.equal(unknown.error, 'unknownSignalType');
+    assert.match(unknown.detail, /^Unknown signal type: x{32}$/);
+});
+
+test('rejects malformed session descriptions', () => {
+    const bad = [
+        { type: 'video-offer', payload: 'v=0' },
+        { type: 'video-offer', payload: { type: 'answer', sdp: 'v=0' } },
+        { type: 'video-offer', payload: { type: 'offer', sdp: '' } },
+        { type: 'video-answer', payload: { type: 'answer', sdp: 42 } },
+    ];
+    for (const signal of bad) assert.equal(validateSignal(signal).ok, false, JSON.stringify(signal));
+});
+
+test('enforces the SDP size limit, overridable per call', () => {
+    const big = { type: 'video-offer', payload: { type: 'offer', sdp: 'a'.repeat(MAX_SDP_LENGTH + 1) } };
+    assert.equal(validateSignal(big).error, 'invalidSignal');
+    assert.match(validateSignal(big).detail, /SDP exceeds/);
+    assert.equal(validateSignal(big, { maxSdpLength: MAX_SDP_LENGTH + 1 }).ok, true);
+    assert.equal(validateSignal(offer, { maxSdpLength: 3 }).ok, false);
+});
+
+test('rejects malformed ICE candidates and media payloads', () => {
+    const bad = [
+        { type: 'ice-candidate', payload: { candidate: 'c' } }, // Neither sdpMid nor sdpMLineIndex
+        { type: 'ice-candidate', payload: { candidate: 'c'.repeat(2000), sdpMid: '0' } },
+        { type: 'ice-candidate', payload: { candidate: 'c', sdpMLineIndex: -1 } },
+        { type: 'ice-candidate', payload: { candidate: 'c', sdpMLineIndex: 1.5 } },
+        { type: 'ice-candidate', payload: { candidate: 'c', sdpMid: 'm'.repeat(65) } },
+        { type: 'media-state', payload: { audio: 'yes', video: true } },
+        { type: 'screen-share', payload: {} },
+        { type: 'bye', payload: { reason: 'x' } },
+    ];
+    for (const signal of bad) assert.equal(validateSignal(signal).ok, false, JSON.stringify(signal).slice(0, 80));
+});
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { getReportStore } from '@/lib/reportStore';
+import { requireModerator } from '@/lib/moderatorAuth';
+import { REPORT_STATUSES, ReportStatus } from '@/types/report';
+
+const isReportStatus = (value: unknown): value is ReportStatus =>
+  REPORT_STATUSES.includes(value as ReportStatus);
+
+// Moderator status update: PATCH /api/report/:id { status: "reviewed" }
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const denied = requireModerator(request);
+  if (denied) return denied;
+
+  const { id } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, message: 'Request body must be JSON.' }, { status: 400 });
+  }
+
+  const status = typeof body === 'object' && body !== null ? (body as Record<string, unknown>).status : undefined;
+  if (!isReportStatus(status)) {
+    return NextResponse.json(
+      { success: false, message: `Status must be one of: ${REPORT_STATUSES.join(', ')}.` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const report = await getReportStore().updateStatus(id, status);
+    if (!report) {
+      return NextResponse.json({ success: false, message: 'Report not found.' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, message: 'Report updated.', report });
+  } catch (err) {
+    console.error(`[Report] Failed to update report ${id}:`, err);
+    return NextResponse.json({ success: false, message: 'Could not update report.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server';
+import { getReportStore } from '@/lib/reportStore';
+import { createRateLimiter, getClientKey } from '@/lib/rateLimit';
+import { requireModerator } from '@/lib/moderatorAuth';
+import { NewReport, REPORT_STATUSES, ReportStatus } from '@/types/report';
+
+const MAX_REASON_LENGTH = 1000;
+const MAX_ID_LENGTH = 128;
+
+// 5 reports per address every 10 minutes. Addresses are only known behind a trusted proxy;
+// without one, every report shares a single site-wide budget, since anything else the
+// client sends (such as an id) can be changed on each request.
+const reportLimiter = createRateLimiter({ limit: 5, windowMs: 10 * 60 * 1000 });
+const unattributedReportLimiter = createRateLimiter({ limit: 30, windowMs: 10 * 60 * 1000 });
+
+function optionalId(value: unknown): string | null | undefined {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'string' || value.length > MAX_ID_LENGTH) return undefined; // invalid
+  return value.trim() || null;
+}
+
+function parseReport(value: unknown): { report?: NewReport; error?: string } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { error: 'Invalid request body.' };
+  }
+  const body = value as Record<string, unknown>;
+
+  const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+  if (!reason) return { error: 'A reason is required.' };
+  if (reason.length > MAX_REASON_LENGTH) {
+    return { error: `Reason must be at most ${MAX_REASON_LENGTH} characters.` };
+  }
+
+  const reportedUserId = optionalId(body.reported_user_id);
+  if (reportedUserId === undefined) return { error: 'Invalid reported user ID.' };
+
+  const roomId = optionalId(body.room_id);
+  if (roomId === undefined) return { error: 'Invalid room ID.' };
+
+  return { report: { reason, reported_user_id: reportedUserId, room_id: roomId } };
+}
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, message: 'Request body must be JSON.' }, { status: 400 });
+  }
+
+  const { report, error } = parseReport(body);
+  if (!report) {
+    return NextResponse.json({ success: false, message: error }, { status: 400 });
+  }
+
+  // Limited after validation so malformed requests don't use up anyone's quota
+  const clientAddress = getClientKey(request.headers);
+  const { allowed, retryAfterMs } = clientAddress ? reportLimiter(clientAddress) : unattributedReportLimiter('all');
+  if (!allowed) {
+    return NextResponse.json(
+      { success: false, message: 'Too many reports. Please try again later.' },
+      { status: 429, headers: { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) } }
+    );
+  }
+
+  try {
+    const saved = await getReportStore().create(report);
+    console.log(`[Report] Stored report ${saved.id}`);
+    return NextResponse.json({ success: true, message: 'Report submitted.', id: saved.id }, { status: 201 });
+  } catch (err) {
+    console.error('[Report] Failed to store report:', err);
+    return NextResponse.json({ success: false, message: 'Could not save report.' }, { status: 500 });
+  }
+}
+
+// Moderator queue listing: GET /api/report?status=open
+export async function GET(request: Request) {
+  const denied = requireModerator(request);
+  if (denied) return denied;
+
+  const status = new URL(request.url).searchParams.get('status');
+  if (status && !REPORT_STATUSES.includes(status as ReportStatus)) {
+    return NextResponse.json({ success: false, message: 'Unknown status filter.' }, { status: 400 });
+  }
+
+  try {
+    const reports = await getReportStore().list({ status: (status as ReportStatus) || undefined });
+    return NextResponse.json({ success: true, reports });
+  } catch (err) {
+    console.error('[Report] Failed to list reports:', err);
+    return NextResponse.json({ success: false, message: 'Could not load reports.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,216 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { ArrowLeft, ChevronDown, ChevronRight, Search, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import {
+    HistorySettings,
+    RETENTION_OPTIONS,
+    StoredConversation,
+    clearHistory,
+    conversationMatches,
+    deleteConversation,
+    getHistorySettings,
+    listConversations,
+    purgeExpiredConversations,
+    saveHistorySettings,
+} from '@/lib/chatHistory';
+import { toPlainText } from '@/lib/richText';
+import { Locale, MessageKey, TranslationParams, dateLocale } from '@/lib/i18n';
+import { useI18n } from '@/components/I18nProvider';
+
+type Translate = (key: MessageKey, params?: TranslationParams) => string;
+
+const SENDER_LABELS = { me: 'sender.me', stranger: 'sender.stranger' } as const;
+
+const retentionLabel = (days: number | null, t: Translate) =>
+    days === null ? t('history.forever') : days === 1 ? t('history.oneDay') : t('history.days', { count: days });
+
+const formatRange = (conversation: StoredConversation, locale: Locale) =>
+    `${format(new Date(conversation.startedAt), 'PP HH:mm', { locale: dateLocale(locale) })} – ${format(new Date(conversation.endedAt), 'HH:mm')}`;
+
+function ConversationItem({ conversation, onDelete }: { conversation: StoredConversation; onDelete: (id: string) => void }) {
+    const { locale, t } = useI18n();
+    const [expanded, setExpanded] = useState(false);
+    const entries = conversation.transcript.messages;
+    const preview = entries.find(entry => entry.sender !== 'system');
+
+    return (
+        <li className="border rounded-lg dark:border-gray-700">
+            <div className="flex items-center gap-2 p-3">
+                <button
+                    type="button"
+                    onClick={() => setExpanded(prev => !prev)}
+                    className="flex flex-1 items-start gap-2 min-w-0 text-left"
+                    aria-expanded={expanded}
+                >
+                    {expanded ? <ChevronDown className="w-4 h-4 mt-0.5 shrink-0" /> : <ChevronRight className="w-4 h-4 mt-0.5 shrink-0" />}
+                    <span className="min-w-0">
+                        <span className="block text-sm font-medium">{formatRange(conversation, locale)}</span>
+                        <span className="block text-xs text-muted-foreground truncate">
+                            {conversation.messageCount === 1 ? t('history.oneMessage') : t('history.messages', { count: conversation.messageCount })}
+                            {preview && ` · ${preview.attachment ? preview.attachment.name : toPlainText(preview.text)}`}
+                        </span>
+                    </span>
+                </button>
+                <Button variant="ghost" size="icon" onClick={() => onDelete(conversation.id)} aria-label={t('history.delete')}>
+                    <Trash2 className="w-4 h-4" />
+                </Button>
+            </div>
+            {expanded && (
+                <ol className="border-t dark:border-gray-700 px-4 py-3 space-y-1 text-sm max-h-80 overflow-y-auto">
+                    {entries.map(entry => (
+                        <li key={entry.id} className={cn(entry.sender === 'system' && 'text-xs italic text-muted-foreground')}>
+                            <span className="text-xs text-muted-foreground mr-2">{format(new Date(entry.timestamp), 'HH:mm')}</span>
+                            {entry.sender !== 'system' && <span className="font-medium mr-1">{t(SENDER_LABELS[entry.sender])}:</span>}
+                            <span className="break-words">
+                                {entry.attachment ? `[${t('transcript.file')}: ${entry.attachment.name}]` : entry.text}
+                                {entry.edited && <span className="text-xs text-muted-foreground ml-1">{t('message.edited')}</span>}
+                            </span>
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </li>
+    );
+}
+
+export default function HistoryPage() {
+    const { t } = useI18n();
+    const [settings, setSettings] = useState<HistorySettings | null>(null);
+    const [conversations, setConversations] = useState<StoredConversation[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [query, setQuery] = useState('');
+
+    const loadConversations = useCallback(async () => {
+        try {
+            setConversations(await listConversations());
+        } catch (error) {
+            console.warn('[History] Could not load conversations:', error);
+            toast.error(t('history.unavailable'), { description: t('history.storageBlocked') });
+        } finally {
+            setIsLoading(false);
+        }
+    }, [t]);
+
+    useEffect(() => {
+        setSettings(getHistorySettings());
+        purgeExpiredConversations()
+            .catch(error => console.warn('[History] Could not purge old conversations:', error))
+            .finally(loadConversations);
+    }, [loadConversations]);
+
+    const updateSettings = async (next: HistorySettings) => {
+        setSettings(next);
+        saveHistorySettings(next);
+        if (next.retentionDays !== settings?.retentionDays) {
+            await purgeExpiredConversations(next.retentionDays).catch(() => {});
+            loadConversations();
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        try {
+            await deleteConversation(id);
+            setConversations(prev => prev.filter(conversation => conversation.id !== id));
+        } catch {
+            toast.error(t('history.deleteFailed'));
+        }
+    };
+
+    const handleClearAll = async () => {
+        if (!window.confirm(t('history.confirmDeleteAll'))) return;
+        try {
+            await clearHistory();
+            setConversations([]);
+        } catch {
+            toast.error(t('history.clearFailed'));
+        }
+    };
+
+    const visible = useMemo(
+        () => conversations.filter(conversation => conversationMatches(conversation, query)),
+        [conversations, query]
+    );
+
+    return (
+        <div className="min-h-[calc(100vh-57px)] flex flex-col items-center p-4 bg-gradient-to-br from-whimsy-50 to-whimsy-100 dark:from-gray-900 dark:to-gray-800">
+            <div className="w-full max-w-2xl p-6 bg-card rounded-lg shadow-lg border dark:border-gray-700">
+                <Link href="/" className="flex items-center text-sm text-muted-foreground hover:underline mb-4">
+                    <ArrowLeft className="w-4 h-4 mr-1" /> {t('nav.backToChat')}
+                </Link>
+                <h2 className="text-2xl font-semibold mb-1">{t('history.title')}</h2>
+                <p className="text-sm text-muted-foreground mb-4">
+                    {t('history.intro')}
+                </p>
+
+                {settings && (
+                    <div className="flex flex-wrap items-center gap-4 mb-4 text-sm">
+                        <label className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={settings.enabled}
+                                onChange={e => updateSettings({ ...settings, enabled: e.target.checked })}
+                            />
+                            {t('history.save')}
+                        </label>
+                        <label className="flex items-center gap-2">
+                            {t('history.deleteAfter')}
+                            <select
+                                value={settings.retentionDays ?? 'never'}
+                                onChange={e => updateSettings({
+                                    ...settings,
+                                    retentionDays: e.target.value === 'never' ? null : Number(e.target.value),
+                                })}
+                                className="rounded-md border border-input bg-background px-2 py-1 text-sm"
+                            >
+                                {RETENTION_OPTIONS.map(days => (
+                                    <option key={days ?? 'never'} value={days ?? 'never'}>{retentionLabel(days, t)}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            className="ml-auto"
+                            onClick={handleClearAll}
+                            disabled={conversations.length === 0}
+                        >
+                            <Trash2 className="w-4 h-4 mr-2" /> {t('history.deleteAll')}
+                        </Button>
+                    </div>
+                )}
+
+                <div className="relative mb-4">
+                    <Search className="absolute left-2.5 top-2.5 w-4 h-4 text-muted-foreground" />
+                    <Input
+                        value={query}
+                        onChange={e => setQuery(e.target.value)}
+                        placeholder={t('history.search')}
+                        className="pl-8"
+                        aria-label={t('history.searchLabel')}
+                    />
+                </div>
+
+                {isLoading ? (
+                    <p className="text-sm text-muted-foreground text-center py-8">{t('history.loading')}</p>
+                ) : visible.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-8">
+                        {conversations.length === 0 ? t('history.empty') : t('history.noMatches')}
+                    </p>
+                ) : (
+                    <ul className="space-y-2">
+                        {visible.map(conversation => (
+                            <ConversationItem key={conversation.id} conversation={conversation} onDelete={handleDelete} />
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+}
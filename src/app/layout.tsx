@@ -5,6 +5,8 @@ import { cn } from "@/lib/utils";
 import { Toaster } from "@/components/ui/sonner"
 import { TooltipProvider } from "@/components/ui/tooltip";
 import ActiveUserCount from "@/components/ActiveUserCount";
+import LocaleSwitcher from "@/components/LocaleSwitcher";
+import { I18nProvider } from "@/components/I18nProvider";
 
 const inter = Inter({ subsets: ["latin"], variable: "--font-sans" });
 
@@ -37,14 +39,19 @@ export default function RootLayout({
           inter.variable
         )}
       >
+        <I18nProvider>
           <TooltipProvider delayDuration={0}>
               <header className="sticky top-0 z-10 flex items-center justify-between px-4 py-2 border-b bg-background/80 backdrop-blur-sm">
                    <h1 className="text-xl font-bold text-primary">Whimsy</h1>
-                   <ActiveUserCount />
+                   <div className="flex items-center gap-4">
+                       <ActiveUserCount />
+                       <LocaleSwitcher />
+                   </div>
               </header>
               {children}
               <Toaster />
           </TooltipProvider>
+        </I18nProvider>
       </body>
     </html>
   );
@@ -0,0 +1,53 @@
+'use client';
+
+import { use } from 'react';
+import Link from 'next/link';
+import { ExternalLink, ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { safeLinkHref } from '@/lib/richText';
+import { useI18n } from '@/components/I18nProvider';
+
+interface LeavePageProps {
+    searchParams: Promise<{ url?: string | string[] }>;
+}
+
+// Chat links land here first so nobody is sent somewhere by a stranger without seeing where
+export default function LeavePage({ searchParams }: LeavePageProps) {
+    const { url } = use(searchParams);
+    const { t } = useI18n();
+    const href = typeof url === 'string' ? safeLinkHref(url) : null;
+
+    return (
+        <div className="min-h-[calc(100vh-57px)] flex flex-col items-center justify-center p-4 bg-gradient-to-br from-whimsy-50 to-whimsy-100 dark:from-gray-900 dark:to-gray-800">
+            <div className="w-full max-w-md p-6 bg-card rounded-lg shadow-lg border dark:border-gray-700 text-center">
+                <ShieldAlert className="w-10 h-10 mx-auto mb-3 text-amber-500" />
+                <h2 className="text-2xl font-semibold mb-2">{t('leave.title')}</h2>
+                {href ? (
+                    <>
+                        <p className="text-sm text-muted-foreground mb-3">
+                            {t('leave.warning')}
+                        </p>
+                        <p className="mb-6 rounded-md bg-muted px-3 py-2 font-mono text-sm break-all">{href}</p>
+                        <div className="flex justify-center gap-2">
+                            <Button variant="outline" asChild>
+                                <Link href="/">{t('leave.back')}</Link>
+                            </Button>
+                            <Button asChild>
+                                <a href={href} rel="noopener noreferrer nofollow">
+                                    {t('leave.continue')} <ExternalLink className="w-4 h-4 ml-2" />
+                                </a>
+                            </Button>
+                        </div>
+                    </>
+                ) : (
+                    <>
+                        <p className="text-sm text-muted-foreground mb-6">{t('leave.invalid')}</p>
+                        <Button variant="outline" asChild>
+                            <Link href="/">{t('leave.back')}</Link>
+                        </Button>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -1,7 +1,11 @@
+"use client";
+
 import ChatInterface from "@/components/ChatInterface";
 import Link from "next/link";
+import { useI18n } from "@/components/I18nProvider";
 
 export default function HomePage() {
+  const { t } = useI18n();
   return (
     <div className="min-h-[calc(100vh-57px)] flex flex-col bg-gradient-to-br from-whimsy-50 to-whimsy-100 dark:from-gray-900 dark:to-gray-800">
       <main className="flex-grow flex items-center justify-center p-4 sm:p-6 md:p-10">
@@ -10,8 +14,9 @@ export default function HomePage() {
         </div>
       </main>
       <footer className="py-4 text-center text-sm text-muted-foreground">
-        <p>Whimsy © {new Date().getFullYear()} - Random Chat</p>
-        <Link href="/report" className="underline ml-4">Report User</Link>
+        <p>Whimsy © {new Date().getFullYear()} - {t('app.tagline')}</p>
+        <Link href="/history" className="underline ml-4">{t('nav.history')}</Link>
+        <Link href="/report" className="underline ml-4">{t('nav.report')}</Link>
       </footer>
     </div>
   );
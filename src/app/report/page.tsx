@@ -7,8 +7,10 @@ import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
 import { ArrowLeft } from 'lucide-react';
 import Link from 'next/link';
+import { useI18n } from '@/components/I18nProvider';
 
 export default function ReportPage() {
+    const { t } = useI18n();
     const [reportedUserId, setReportedUserId] = useState('');
     const [reason, setReason] = useState('');
     const [roomId, setRoomId] = useState('');
@@ -17,7 +19,7 @@ export default function ReportPage() {
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!reason.trim()) {
-            toast.error("Please provide a reason for the report.");
+            toast.error(t('report.reasonRequired'));
             return;
         }
         setIsSubmitting(true);
@@ -36,15 +38,15 @@ export default function ReportPage() {
             const result = await response.json();
 
             if (response.ok && result.success) {
-                toast.success("Report submitted successfully.");
+                toast.success(t('report.submitted'));
                 setReportedUserId('');
                 setReason('');
                 setRoomId('');
             } else {
-                throw new Error(result.message || "Failed to submit report.");
+                throw new Error(result.message || t('report.failedDefault'));
             }
         } catch (error: any) {
-            toast.error("Report submission failed", { description: error.message });
+            toast.error(t('report.failed'), { description: error.message });
         } finally {
             setIsSubmitting(false);
         }
@@ -54,46 +56,46 @@ export default function ReportPage() {
         <div className="min-h-[calc(100vh-57px)] flex flex-col items-center justify-center p-4 bg-gradient-to-br from-red-50 to-orange-100 dark:from-gray-900 dark:to-gray-800">
             <div className="w-full max-w-md p-6 bg-card rounded-lg shadow-lg border dark:border-gray-700">
                  <Link href="/" className="flex items-center text-sm text-muted-foreground hover:underline mb-4">
-                    <ArrowLeft className="w-4 h-4 mr-1" /> Back to Chat
+                    <ArrowLeft className="w-4 h-4 mr-1" /> {t('nav.backToChat')}
                  </Link>
-                <h2 className="text-2xl font-semibold mb-4 text-center">Report User</h2>
+                <h2 className="text-2xl font-semibold mb-4 text-center">{t('report.title')}</h2>
                 <form onSubmit={handleSubmit} className="space-y-4">
                     <div>
-                        <label htmlFor="roomId" className="block text-sm font-medium mb-1">Room ID (Optional)</label>
+                        <label htmlFor="roomId" className="block text-sm font-medium mb-1">{t('report.roomId')}</label>
                         <Input
                             id="roomId"
                             value={roomId}
                             onChange={(e) => setRoomId(e.target.value)}
-                            placeholder="Enter the Room ID if known"
+                            placeholder={t('report.roomIdPlaceholder')}
                         />
                     </div>
                     <div>
-                        <label htmlFor="reportedUserId" className="block text-sm font-medium mb-1">Reported User ID (Optional)</label>
+                        <label htmlFor="reportedUserId" className="block text-sm font-medium mb-1">{t('report.userId')}</label>
                         <Input
                             id="reportedUserId"
                             value={reportedUserId}
                             onChange={(e) => setReportedUserId(e.target.value)}
-                            placeholder="Enter the User ID if known"
+                            placeholder={t('report.userIdPlaceholder')}
                         />
                     </div>
                     <div>
-                        <label htmlFor="reason" className="block text-sm font-medium mb-1">Reason for Report</label>
+                        <label htmlFor="reason" className="block text-sm font-medium mb-1">{t('report.reason')}</label>
                         <Textarea
                             id="reason"
                             value={reason}
                             onChange={(e) => setReason(e.target.value)}
-                            placeholder="Describe the issue..."
+                            placeholder={t('report.reasonPlaceholder')}
                             rows={4}
                             required
                         />
                     </div>
                     <Button type="submit" className="w-full" disabled={isSubmitting}>
-                        {isSubmitting ? 'Submitting...' : 'Submit Report'}
+                        {isSubmitting ? t('report.submitting') : t('report.submit')}
                     </Button>
                 </form>
             </div>
              <footer className="py-4 text-center text-sm text-muted-foreground mt-6">
-                <p>Whimsy © {new Date().getFullYear()} - Random Chat</p>
+                <p>Whimsy © {new Date().getFullYear()} - {t('app.tagline')}</p>
             </footer>
         </div>
     );
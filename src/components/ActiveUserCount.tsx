@@ -1,29 +1,38 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
-import { Users } from 'lucide-react';
+import { Users, Search, MessageCircle } from 'lucide-react';
+import { useServerStats } from '@/hooks/useServerStats';
+import { useI18n } from '@/components/I18nProvider';
 
 const ActiveUserCount = () => {
-    const [userCount, setUserCount] = useState<number | null>(null);
-    const [userId] = useState<string>(() => {
-         if (typeof window !== 'undefined') {
-             let id = localStorage.getItem('whimsyUserId');
-             return id || 'unknown-user'; // Use a fallback if ID not set yet
-         }
-         return 'unknown-user';
-    });
+    const stats = useServerStats();
+    const { t } = useI18n();
 
+    if (!stats) {
+        return (
+            <div className="flex items-center text-sm text-muted-foreground">
+                <Users className="w-4 h-4 mr-1.5" />
+                <span className="italic">{t('stats.loading')}</span>
+            </div>
+        );
+    }
 
     return (
-        <div className="flex items-center text-sm text-muted-foreground">
-            <Users className="w-4 h-4 mr-1.5" />
-            {userCount !== null ? (
-                <span>{userCount} user{userCount !== 1 ? 's' : ''} online</span>
-            ) : (
-                <span className="italic">Loading...</span>
-            )}
+        <div className="flex items-center gap-3 text-sm text-muted-foreground">
+            <span className="flex items-center" title={t('stats.onlineTitle')}>
+                <Users className="w-4 h-4 mr-1.5" />
+                {t('stats.online', { count: stats.online })}
+            </span>
+            <span className="hidden sm:flex items-center" title={t('stats.searchingTitle')}>
+                <Search className="w-4 h-4 mr-1.5" />
+                {t('stats.searching', { count: stats.searching })}
+            </span>
+            <span className="hidden sm:flex items-center" title={t('stats.chattingTitle')}>
+                <MessageCircle className="w-4 h-4 mr-1.5" />
+                {t('stats.chatting', { count: stats.chatting })}
+            </span>
         </div>
     );
 };
 
-export default ActiveUserCount;
\ No newline at end of file
+export default ActiveUserCount;
@@ -3,16 +3,29 @@
 import React, { useState, useEffect, useRef, useCallback, memo, useMemo } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Send, RefreshCw, X, Search, Loader2, Video, VideoOff, PhoneOff } from 'lucide-react';
+import { Textarea } from '@/components/ui/textarea';
+import { Send, RefreshCw, X, Search, Pencil, Loader2, MessageSquare, Video, VideoOff, PhoneOff, Ban, Mic, MicOff, MonitorUp, MonitorX, Paperclip } from 'lucide-react';
 import { toast } from 'sonner';
 
 import ChatMessage from '@/components/ChatMessage';
 import TypingIndicator from '@/components/TypingIndicator';
 import VideoPlayer from '@/components/VideoPlayer';
+import InterestTagsInput from '@/components/InterestTagsInput';
+import ChatModePicker from '@/components/ChatModePicker';
+import DevicePicker from '@/components/DevicePicker';
+import ConnectionQualityBadge from '@/components/ConnectionQualityBadge';
+import TranscriptExportMenu from '@/components/TranscriptExportMenu';
 import { WebRTCProvider, useWebRTCContext } from '@/components/WebRTCProvider';
-import { useChatManager } from '@/hooks/useChatManager';
-import { Message, ChatStatus, SignalingMessage } from '@/types/chat';
+import { useI18n } from '@/components/I18nProvider';
+import { PeerChannel, useChatManager } from '@/hooks/useChatManager';
+import { useConversationHistory } from '@/hooks/useConversationHistory';
+import { InputDeviceKind } from '@/lib/mediaDevices';
+import { CallQuality, CallStats } from '@/lib/callStats';
+import { ALLOWED_ATTACHMENT_TYPES, checkAttachment } from '@/lib/attachments';
+import { applyReaction, hasReacted } from '@/lib/reactions';
+import { MAX_MESSAGE_LENGTH } from '@/lib/peerChat';
+import { MessageKey, TranslationParams, describeError } from '@/lib/i18n';
+import { Message, MessageAck, MessageAttachment, ChatMode, ChatStatus, MediaState, MessageStatus, MessageStatusUpdate, Reaction, ReactionBy, SignalingMessage, SystemNotice } from '@/types/chat';
 
 // =============== UTILITY FUNCTIONS ===============
 function debounce<T extends (...args: any[]) => any>(fn: T, ms = 300) {
@@ -23,42 +36,109 @@ function debounce<T extends (...args: any[]) => any>(fn: T, ms = 300) {
     };
 }
 
+// Acks and receipts can arrive out of order; never move a message backwards
+function canTransitionStatus(from: MessageStatus | undefined, to: MessageStatus): boolean {
+    switch (to) {
+        case 'sent': return from === 'failed'; // retry
+        case 'failed': return from === 'sent';
+        case 'delivered': return from === 'sent' || from === 'failed';
+        case 'read': return from !== 'read';
+    }
+}
+
+function isSameNotice(a: SystemNotice | undefined, b: SystemNotice): boolean {
+    if (!a || a.key !== b.key) return false;
+    const aParams = a.params ?? {};
+    const bParams = b.params ?? {};
+    const keys = Object.keys(aParams);
+    return keys.length === Object.keys(bParams).length && keys.every(key => aParams[key] === bParams[key]);
+}
+
 // =============== CUSTOM HOOKS ===============
 // Hook for managing messages
 function useMessageManager() {
     const [messages, setMessages] = useState<Message[]>([]);
     
-    const addSystemMessage = useCallback((text: string) => {
+    const addSystemMessage = useCallback((key: MessageKey, params?: TranslationParams) => {
         // Prevent duplicate consecutive system messages
-        if (text) {
-            setMessages(prev => {
-                if (prev.length > 0) {
-                    const lastMsg = prev[prev.length - 1];
-                    if (lastMsg.system && lastMsg.text === text) {
-                        return prev;
-                    }
+        setMessages(prev => {
+            if (prev.length > 0) {
+                const lastMsg = prev[prev.length - 1];
+                if (lastMsg.system && isSameNotice(lastMsg.notice, { key, params })) {
+                    return prev;
                 }
-                
-                const newMessage: Message = {
-                    id: uuidv4(),
-                    text,
-                    sender: "system",
-                    timestamp: Date.now(),
-                    system: true,
-                };
-                return [...prev, newMessage];
-            });
-        }
+            }
+
+            const newMessage: Message = {
+                id: uuidv4(),
+                text: "",
+                sender: "system",
+                timestamp: Date.now(),
+                system: true,
+                notice: { key, params },
+            };
+            return [...prev, newMessage];
+        });
     }, []);
 
-    const addUserMessage = useCallback((text: string) => {
+    // Returns the new message id so delivery updates can refer to it
+    const addUserMessage = useCallback((text: string): string => {
         const newMessage: Message = {
             id: uuidv4(),
             text,
             sender: "me",
             timestamp: Date.now(),
+            status: "sent",
         };
         setMessages(prev => [...prev, newMessage]);
+        return newMessage.id;
+    }, []);
+
+    // Our own files show immediately from a local object URL while they upload
+    const addUserAttachment = useCallback((file: File): string => {
+        const newMessage: Message = {
+            id: uuidv4(),
+            text: file.name,
+            sender: "me",
+            timestamp: Date.now(),
+            status: "sent",
+            attachment: { name: file.name, mime: file.type, size: file.size, progress: 0, url: URL.createObjectURL(file) },
+        };
+        setMessages(prev => [...prev, newMessage]);
+        return newMessage.id;
+    }, []);
+
+    const updateAttachment = useCallback((id: string, update: Partial<MessageAttachment>) => {
+        setMessages(prev => prev.map(msg =>
+            msg.id === id && msg.attachment ? { ...msg, attachment: { ...msg.attachment, ...update } } : msg
+        ));
+    }, []);
+
+    const updateMessage = useCallback((id: string, changes: Partial<Message>) => {
+        setMessages(prev => prev.map(msg => msg.id === id ? { ...msg, ...changes } : msg));
+    }, []);
+
+    // Unsent messages stay in place as a placeholder; their content is dropped
+    const removeMessage = useCallback((id: string) => {
+        setMessages(prev => prev.map(msg => {
+            if (msg.id !== id) return msg;
+            if (msg.attachment?.url) URL.revokeObjectURL(msg.attachment.url);
+            return { ...msg, text: "", attachment: undefined, reactions: undefined, edited: false, removed: true };
+        }));
+    }, []);
+
+    const setReaction = useCallback((id: string, emoji: string, by: ReactionBy, active: boolean) => {
+        setMessages(prev => prev.map(msg =>
+            msg.id === id && !msg.system ? { ...msg, reactions: applyReaction(msg.reactions, emoji, by, active) } : msg
+        ));
+    }, []);
+
+    const updateMessageStatus = useCallback((id: string, status: MessageStatus, update: MessageStatusUpdate = {}) => {
+        setMessages(prev => prev.map(msg =>
+            msg.id === id && msg.sender === 'me' && canTransitionStatus(msg.status, status)
+                ? { ...msg, status, text: update.text ?? msg.text, failureReason: update.reason, sentViaPeer: update.viaPeer ?? msg.sentViaPeer }
+                : msg
+        ));
     }, []);
     
     const addPartnerMessage = useCallback((message: Message) => {
@@ -66,17 +146,26 @@ function useMessageManager() {
     }, []);
 
     const clearMessages = useCallback(() => {
-        setMessages([]);
+        setMessages(prev => {
+            prev.forEach(msg => msg.attachment?.url && URL.revokeObjectURL(msg.attachment.url));
+            return [];
+        });
     }, []);
     
     const filterLookingMessages = useCallback(() => {
-        setMessages(prev => prev.filter(msg => !(msg.system && msg.text.includes("Looking for"))));
+        setMessages(prev => prev.filter(msg => !(msg.system && msg.notice?.key === 'system.lookingForPartner')));
     }, []);
 
     return {
         messages,
         addSystemMessage,
         addUserMessage,
+        addUserAttachment,
+        updateAttachment,
+        updateMessage,
+        removeMessage,
+        setReaction,
+        updateMessageStatus,
         addPartnerMessage,
         clearMessages,
         filterLookingMessages
@@ -86,7 +175,7 @@ function useMessageManager() {
 // Hook for managing input state
 function useInputManager() {
     const [inputValue, setInputValue] = useState("");
-    const inputRef = useRef<HTMLInputElement>(null);
+    const inputRef = useRef<HTMLTextAreaElement>(null);
     
     const clearInput = useCallback(() => {
         setInputValue("");
@@ -110,12 +199,21 @@ function useInputManager() {
 // =============== COMPONENT INTERFACES ===============
 interface ChatHeaderProps {
     status: ChatStatus;
+    messages: Message[]; // For transcript export
+    sharedInterests: string[];
+    mode: ChatMode; // The current chat's mode, or the one picked for the next
+    isReconnecting: boolean;
+    isPartnerReconnecting: boolean;
     isWebRTCActive: boolean;
     canStartVideo: boolean;
+    canShareScreen: boolean;
+    isScreenSharing: boolean;
     onStartChat: () => void;
     onNextChat: () => void;
     onEndChat: () => void;
+    onBlockChat: () => void;
     onToggleVideo: () => void;
+    onToggleScreenShare: () => void;
 }
 
 interface MessageAreaProps {
@@ -123,55 +221,101 @@ interface MessageAreaProps {
     isPartnerTyping: boolean;
     status: ChatStatus;
     messagesEndRef: React.RefObject<HTMLDivElement | null>;
+    onRetryMessage: (message: Message) => void;
+    onMessageVisible: (id: string) => void;
+    onReact?: (message: Message, emoji: string) => void; // Unset outside a chat
+    canChangeMessage: (message: Message) => boolean; // Our own message, still inside the edit window
+    onEditMessage: (message: Message) => void;
+    onUnsendMessage: (message: Message) => void;
 }
 
 interface ChatInputProps {
     value: string;
     onChange: (value: string) => void;
     onSend: () => void;
+    onSendFile: (file: File) => void;
     onTyping: (isTyping: boolean) => void;
     disabled: boolean;
     status: ChatStatus;
-    inputRef: React.RefObject<HTMLInputElement | null>;
+    inputRef: React.RefObject<HTMLTextAreaElement | null>;
+    isEditing: boolean; // The input holds an edit to an earlier message
+    onCancelEdit: () => void;
 }
 
 interface VideoPanelProps {
     localStream: MediaStream | null;
     remoteStream: MediaStream | null;
     isWebRTCActive: boolean;
+    isRecovering: boolean;
+    isScreenSharing: boolean;
+    isRemoteScreenSharing: boolean;
+    callStats: CallStats | null;
+    callQuality: CallQuality | null;
+    localMediaState: MediaState;
+    remoteMediaState: MediaState;
     status: ChatStatus;
     partnerId: string | null;
+    onToggleMic: () => void;
+    onToggleCamera: () => void;
+    onSwitchDevice: (kind: InputDeviceKind, deviceId: string) => void;
 }
 
 // =============== MEMOIZED COMPONENTS ===============
 const ChatHeader = memo(function ChatHeader({ 
     status, 
+    messages,
+    sharedInterests,
+    mode,
+    isReconnecting,
+    isPartnerReconnecting,
     isWebRTCActive, 
     canStartVideo, 
+    canShareScreen,
+    isScreenSharing,
     onStartChat, 
     onNextChat, 
     onEndChat, 
-    onToggleVideo 
+    onBlockChat,
+    onToggleVideo,
+    onToggleScreenShare
 }: ChatHeaderProps) {
+    const { t } = useI18n();
+
     const renderStatusIndicator = () => {
+        if (isReconnecting) {
+            return <span className="flex items-center text-amber-500"><Loader2 className="w-4 h-4 mr-2 animate-spin" />{t('status.reconnecting')}</span>;
+        }
+        if (status === 'chatting' && isPartnerReconnecting) {
+            return <span className="flex items-center text-amber-500"><Loader2 className="w-4 h-4 mr-2 animate-spin" />{t('status.partnerReconnecting')}</span>;
+        }
         switch (status) {
-            case "idle": return <span className="text-muted-foreground flex items-center"><X className="w-4 h-4 mr-2 text-gray-500" />Idle</span>;
-            case "connecting": return <span className="flex items-center text-blue-500"><Loader2 className="w-4 h-4 mr-2 animate-spin" />Connecting...</span>;
-            case "waiting": return <span className="flex items-center text-amber-500"><Loader2 className="w-4 h-4 mr-2 animate-spin" />Searching...</span>;
+            case "idle": return <span className="text-muted-foreground flex items-center"><X className="w-4 h-4 mr-2 text-gray-500" />{t('status.idle')}</span>;
+            case "connecting": return <span className="flex items-center text-blue-500"><Loader2 className="w-4 h-4 mr-2 animate-spin" />{t('status.connecting')}</span>;
+            case "waiting": return <span className="flex items-center text-amber-500"><Loader2 className="w-4 h-4 mr-2 animate-spin" />{t('status.waiting')}</span>;
             case "chatting": return (
                 <span className="flex items-center text-green-500">
                     <span className="relative flex h-3 w-3 mr-2">
                         <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-green-400 opacity-75"></span>
                         <span className="relative inline-flex rounded-full h-3 w-3 bg-green-500"></span>
-                    </span>Connected
+                    </span>{t('status.chatting')}
                 </span>
             );
-            case "disconnected": return <span className="text-orange-600 flex items-center"><PhoneOff className="w-4 h-4 mr-2" />Disconnected</span>;
-            case "error": return <span className="text-destructive flex items-center"><X className="w-4 h-4 mr-2" />Error</span>;
-            default: return <span className="text-muted-foreground flex items-center"><X className="w-4 h-4 mr-2 text-gray-500" />Unknown</span>;
+            case "disconnected": return <span className="text-orange-600 flex items-center"><PhoneOff className="w-4 h-4 mr-2" />{t('status.disconnected')}</span>;
+            case "error": return <span className="text-destructive flex items-center"><X className="w-4 h-4 mr-2" />{t('status.error')}</span>;
+            default: return <span className="text-muted-foreground flex items-center"><X className="w-4 h-4 mr-2 text-gray-500" />{t('status.unknown')}</span>;
         }
     };
 
+    const renderModeBadge = () => {
+        if (status !== 'connecting' && status !== 'waiting' && status !== 'chatting') return null;
+        const Icon = mode === 'video' ? Video : MessageSquare;
+        return (
+            <span className="flex items-center rounded-full border dark:border-gray-700 px-2 py-0.5 text-xs font-normal text-muted-foreground">
+                <Icon className="w-3 h-3 mr-1" />{mode === 'video' ? t('mode.video') : t('mode.text')}
+            </span>
+        );
+    };
+
     const renderMainActionButton = () => {
         const isBusy = status === 'connecting' || status === 'waiting';
         const canInteract = status === 'chatting' || status === 'waiting';
@@ -180,22 +324,29 @@ const ChatHeader = memo(function ChatHeader({
             return (
                 <Button onClick={onStartChat} size="lg" disabled={isBusy}>
                     {isBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
-                    {isBusy ? 'Connecting...' : 'Start Chatting'}
+                    {isBusy ? t('status.connecting') : t('actions.startChatting')}
                 </Button>
             );
         }
 
         return (
             <div className="flex gap-2">
-                <Button variant="outline" size="sm" onClick={onNextChat} disabled={isBusy} title="Find new partner">
-                    <RefreshCw className="w-4 h-4" /> <span className="hidden sm:inline ml-2">Next</span>
+                <Button variant="outline" size="sm" onClick={onNextChat} disabled={isBusy} title={t('actions.nextTitle')}>
+                    <RefreshCw className="w-4 h-4" /> <span className="hidden sm:inline ml-2">{t('actions.next')}</span>
                 </Button>
-                <Button variant={isWebRTCActive ? "secondary" : "outline"} size="sm" onClick={onToggleVideo} disabled={!canStartVideo} title={isWebRTCActive ? 'Stop video call' : 'Start video call'}>
+                <Button variant={isWebRTCActive ? "secondary" : "outline"} size="sm" onClick={onToggleVideo} disabled={!canStartVideo} title={isWebRTCActive ? t('actions.stopVideoTitle') : mode === 'text' ? t('actions.videoTextOnlyTitle') : t('actions.startVideoTitle')}>
                     {isWebRTCActive ? <VideoOff className="w-4 h-4" /> : <Video className="w-4 h-4" />}
-                    <span className="hidden sm:inline ml-2">{isWebRTCActive ? 'Stop Video' : 'Start Video'}</span>
+                    <span className="hidden sm:inline ml-2">{isWebRTCActive ? t('actions.stopVideo') : t('actions.startVideo')}</span>
+                </Button>
+                <Button variant={isScreenSharing ? "secondary" : "outline"} size="sm" onClick={onToggleScreenShare} disabled={!canShareScreen} title={isScreenSharing ? t('actions.stopSharingTitle') : t('actions.shareScreenTitle')}>
+                    {isScreenSharing ? <MonitorX className="w-4 h-4" /> : <MonitorUp className="w-4 h-4" />}
+                    <span className="hidden sm:inline ml-2">{isScreenSharing ? t('actions.stopSharing') : t('actions.shareScreen')}</span>
                 </Button>
-                <Button variant="destructive" size="sm" onClick={onEndChat} disabled={!canInteract} title="End current chat">
-                    <PhoneOff className="w-4 h-4" /> <span className="hidden sm:inline ml-2">End</span>
+                <Button variant="outline" size="sm" onClick={onBlockChat} disabled={status !== 'chatting'} title={t('actions.blockTitle')}>
+                    <Ban className="w-4 h-4" /> <span className="hidden sm:inline ml-2">{t('actions.block')}</span>
+                </Button>
+                <Button variant="destructive" size="sm" onClick={onEndChat} disabled={!canInteract} title={t('actions.endTitle')}>
+                    <PhoneOff className="w-4 h-4" /> <span className="hidden sm:inline ml-2">{t('actions.end')}</span>
                 </Button>
             </div>
         );
@@ -203,8 +354,20 @@ const ChatHeader = memo(function ChatHeader({
 
     return (
         <div className="flex items-center justify-between px-4 py-2 border-b dark:border-gray-700 flex-wrap gap-2">
-            <div className="text-sm font-medium">{renderStatusIndicator()}</div>
+            <div className="flex items-center gap-2 text-sm font-medium">
+                {renderStatusIndicator()}
+                {renderModeBadge()}
+                {status === 'chatting' && sharedInterests.map(tag => (
+                    <span key={tag} className="rounded-full bg-secondary dark:bg-gray-700 px-2 py-0.5 text-xs font-normal">
+                        #{tag}
+                    </span>
+                ))}
+            </div>
             <div className="flex gap-2">
+                <TranscriptExportMenu
+                    messages={messages}
+                    disabled={!messages.some(msg => !msg.system)}
+                />
                 {renderMainActionButton()}
             </div>
         </div>
@@ -215,32 +378,40 @@ const MessageArea = memo(function MessageArea({
     messages, 
     isPartnerTyping, 
     status,
-    messagesEndRef
+    messagesEndRef,
+    onRetryMessage,
+    onMessageVisible,
+    onReact,
+    canChangeMessage,
+    onEditMessage,
+    onUnsendMessage
 }: MessageAreaProps) {
+    const { t } = useI18n();
+
     const renderWelcomeOrStatusScreen = () => (
         <div className="flex flex-col items-center justify-center h-full text-center p-4">
             {status === 'idle' && (
                 <>
                     <div className="text-3xl font-bold bg-gradient-to-r from-indigo-500 to-purple-600 dark:from-indigo-400 dark:to-purple-500 bg-clip-text text-transparent pb-2 animate-fade-in">
-                        Welcome to WhimsyChat
+                        {t('welcome.title')}
                     </div>
                     <p className="text-muted-foreground mb-6 max-w-md animate-slide-in">
-                        Click "Start Chatting" to connect with a random stranger.
+                        {t('welcome.hint')}
                     </p>
                 </>
             )}
             {status === 'disconnected' &&
                 <p className="mt-4 text-lg text-orange-600 animate-fade-in">
-                    Chat ended. Start a new one?
+                    {t('welcome.ended')}
                 </p>
             }
             {status === 'error' &&
                 <p className="mt-4 text-lg text-destructive animate-fade-in">
-                    Connection error. Please try starting again.
+                    {t('welcome.error')}
                 </p>
             }
-            {status === 'connecting' && <div className="flex items-center text-blue-500"><Loader2 className="w-4 h-4 mr-2 animate-spin" />Connecting...</div>}
-            {status === 'waiting' && <div className="flex items-center text-amber-500"><Loader2 className="w-4 h-4 mr-2 animate-spin" />Searching for partner...</div>}
+            {status === 'connecting' && <div className="flex items-center text-blue-500"><Loader2 className="w-4 h-4 mr-2 animate-spin" />{t('status.connecting')}</div>}
+            {status === 'waiting' && <div className="flex items-center text-amber-500"><Loader2 className="w-4 h-4 mr-2 animate-spin" />{t('welcome.searching')}</div>}
         </div>
     );
 
@@ -256,7 +427,15 @@ const MessageArea = memo(function MessageArea({
             ) : (
                 <>
                     {messages.map((message) => (
-                        <ChatMessage key={message.id} message={message} />
+                        <ChatMessage
+                            key={message.id}
+                            message={message}
+                            onRetry={onRetryMessage}
+                            onVisible={onMessageVisible}
+                            onReact={onReact}
+                            onEdit={canChangeMessage(message) && !message.attachment ? onEditMessage : undefined}
+                            onUnsend={canChangeMessage(message) ? onUnsendMessage : undefined}
+                        />
                     ))}
                     {isPartnerTyping && status === "chatting" && (
                         <div className="flex justify-start sticky bottom-1 left-4">
@@ -275,13 +454,18 @@ const ChatInput = memo(function ChatInput({
     value, 
     onChange, 
     onSend, 
+    onSendFile,
     onTyping, 
     disabled, 
     status,
-    inputRef
+    inputRef,
+    isEditing,
+    onCancelEdit
 }: ChatInputProps) {
+    const { t } = useI18n();
     // Use ref to track typing state to avoid re-renders
     const isTypingRef = useRef(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
     
     // Create a stable debounced typing notification function
     const debouncedTyping = useMemo(() => 
@@ -310,14 +494,18 @@ const ChatInput = memo(function ChatInput({
     }, [status, inputRef]);
 
     // Event handlers
-    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-        if (e.key === "Enter" && !e.shiftKey) {
+    // Enter sends and Shift+Enter starts a new line; Enter while an IME is composing just confirms the text
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (e.key === "Enter" && !e.shiftKey && !e.nativeEvent.isComposing) {
             e.preventDefault();
             onSend();
+        } else if (e.key === "Escape" && isEditing) {
+            e.preventDefault();
+            onCancelEdit();
         }
     };
 
-    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
         const newValue = e.target.value;
         onChange(newValue);
         
@@ -337,6 +525,12 @@ const ChatInput = memo(function ChatInput({
         }
     };
     
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ""; // Allow picking the same file again
+        if (file) onSendFile(file);
+    };
+
     // Handle button click without losing focus
     const handleButtonClick = (e: React.MouseEvent) => {
         if (value.trim() && !disabled) {
@@ -347,30 +541,56 @@ const ChatInput = memo(function ChatInput({
 
     return (
         <div className="p-3 border-t dark:border-gray-700 bg-background/90 dark:bg-gray-800/90 backdrop-blur-sm sticky bottom-0">
-            <form onSubmit={handleSubmit} className="flex gap-2 items-center">
-                <Input
+            {isEditing && (
+                <div className="flex items-center gap-2 mb-2 text-xs text-muted-foreground">
+                    <Pencil className="w-3 h-3" />
+                    {t('input.editing')}
+                    <button type="button" onClick={onCancelEdit} className="underline ml-auto">{t('input.cancel')}</button>
+                </div>
+            )}
+            <form onSubmit={handleSubmit} className="flex gap-2 items-end">
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={ALLOWED_ATTACHMENT_TYPES.join(',')}
+                    onChange={handleFileChange}
+                    className="hidden"
+                    tabIndex={-1}
+                />
+                <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={disabled}
+                    aria-label={t('input.attach')}
+                >
+                    <Paperclip className="w-5 h-5" />
+                </Button>
+                <Textarea
                     ref={inputRef}
                     id="chat-input"
+                    rows={1}
                     value={value}
                     onChange={handleChange}
                     onKeyDown={handleKeyDown}
                     placeholder={
-                        status === "chatting" ? "Send a message..." :
-                        status === "waiting" ? "Waiting for a partner..." :
-                        status === "connecting" ? "Connecting..." :
-                        "Click 'Start Chatting' above"
+                        status === "chatting" ? t('input.placeholder.chatting') :
+                        status === "waiting" ? t('input.placeholder.waiting') :
+                        status === "connecting" ? t('input.placeholder.connecting') :
+                        t('input.placeholder.idle')
                     }
                     disabled={disabled}
-                    className="flex-grow disabled:opacity-60 disabled:cursor-not-allowed"
-                    aria-label="Chat message input"
-                    maxLength={500}
+                    className="flex-grow min-h-9 max-h-40 resize-none disabled:opacity-60 disabled:cursor-not-allowed"
+                    aria-label={t('input.label')}
+                    maxLength={MAX_MESSAGE_LENGTH}
                     autoComplete="off"
                 />
                 <Button
                     type="button"
                     onClick={handleButtonClick}
                     disabled={disabled || !value.trim()}
-                    aria-label="Send message"
+                    aria-label={isEditing ? t('input.saveEdit') : t('input.send')}
                     size="icon"
                 >
                     <Send className="w-5 h-5" />
@@ -380,21 +600,46 @@ const ChatInput = memo(function ChatInput({
     );
 });
 
+const CameraOffPlaceholder = ({ label }: { label: string }) => (
+    <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-muted-foreground bg-black text-sm px-2 text-center">
+        <VideoOff className="w-6 h-6" />
+        {label}
+    </div>
+);
+
+const MutedBadge = ({ label }: { label: string }) => (
+    <div className="absolute top-2 right-2 bg-destructive text-white p-1 rounded-full" title={label} aria-label={label}>
+        <MicOff className="w-4 h-4" />
+    </div>
+);
+
 const VideoPanel = memo(function VideoPanel({ 
     localStream, 
     remoteStream, 
     isWebRTCActive, 
+    isRecovering,
+    isScreenSharing,
+    isRemoteScreenSharing,
+    callStats,
+    callQuality,
+    localMediaState,
+    remoteMediaState,
     status, 
-    partnerId 
+    partnerId,
+    onToggleMic,
+    onToggleCamera,
+    onSwitchDevice
 }: VideoPanelProps) {
+    const { t } = useI18n();
+
     return (
         <div className="hidden md:flex flex-col w-1/3 bg-muted/40 dark:bg-black/30 border-l dark:border-gray-700">
             {/* Remote Video */}
             <div className="aspect-video bg-black relative overflow-hidden border-b dark:border-gray-700 group">
-                <VideoPlayer stream={remoteStream} muted={false} />
+                <VideoPlayer stream={remoteStream} muted={false} fit={isRemoteScreenSharing ? 'contain' : 'cover'} />
                 {!remoteStream && (
                     <div className="absolute inset-0 flex items-center justify-center text-muted-foreground bg-black/60 text-sm px-2 text-center">
-                        {status === 'chatting' ? (partnerId ? (isWebRTCActive ? "Waiting for partner's video..." : "Partner's Video Off") : "Waiting for Partner") : "Offline"}
+                        {status === 'chatting' ? (partnerId ? (isWebRTCActive ? t('video.waitingForPartnerVideo') : t('video.partnerVideoOff')) : t('video.waitingForPartner')) : t('video.offline')}
                     </div>
                 )}
                 {remoteStream && (
@@ -402,13 +647,24 @@ const VideoPanel = memo(function VideoPanel({
                         <Video className="w-4 h-4"/>
                     </div>
                 )}
+                {remoteStream && !remoteMediaState.video && !isRemoteScreenSharing && <CameraOffPlaceholder label={t('video.partnerCameraOff')} />}
+                {remoteStream && !remoteMediaState.audio && <MutedBadge label={t('video.partnerMuted')} />}
+                {remoteStream && callStats && callQuality && (
+                    <ConnectionQualityBadge quality={callQuality} stats={callStats} className="absolute bottom-2 right-2" />
+                )}
+                {isRecovering && (
+                    <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-white bg-black/70 text-sm px-2 text-center">
+                        <Loader2 className="w-6 h-6 animate-spin" />
+                        {t('video.reconnecting')}
+                    </div>
+                )}
             </div>
             {/* Local Video */}
             <div className="aspect-video bg-black relative overflow-hidden group">
-                <VideoPlayer stream={localStream} muted={true} />
+                <VideoPlayer stream={localStream} muted={true} fit={isScreenSharing ? 'contain' : 'cover'} />
                 {!localStream && (
                     <div className="absolute inset-0 flex items-center justify-center text-muted-foreground bg-black/60 text-sm px-2 text-center">
-                        {status === 'chatting' && isWebRTCActive ? "Starting your video..." : "Your Video Off"}
+                        {status === 'chatting' && isWebRTCActive ? t('video.starting') : t('video.yourVideoOff')}
                     </div>
                 )}
                 {localStream && (
@@ -416,10 +672,38 @@ const VideoPanel = memo(function VideoPanel({
                         <Video className="w-4 h-4"/>
                     </div>
                 )}
+                {localStream && !localMediaState.video && !isScreenSharing && <CameraOffPlaceholder label={t('video.cameraOff')} />}
+                {localStream && !localMediaState.audio && <MutedBadge label={t('video.muted')} />}
+                {localStream && (
+                    <div className="absolute bottom-2 left-1/2 -translate-x-1/2 flex gap-2">
+                        <Button
+                            size="icon"
+                            variant={localMediaState.audio ? "secondary" : "destructive"}
+                            className="h-8 w-8 rounded-full"
+                            onClick={onToggleMic}
+                            title={localMediaState.audio ? t('video.mute') : t('video.unmute')}
+                        >
+                            {localMediaState.audio ? <Mic className="w-4 h-4" /> : <MicOff className="w-4 h-4" />}
+                        </Button>
+                        <Button
+                            size="icon"
+                            variant={localMediaState.video ? "secondary" : "destructive"}
+                            className="h-8 w-8 rounded-full"
+                            onClick={onToggleCamera}
+                            title={localMediaState.video ? t('video.cameraTurnOff') : t('video.cameraTurnOn')}
+                        >
+                            {localMediaState.video ? <Video className="w-4 h-4" /> : <VideoOff className="w-4 h-4" />}
+                        </Button>
+                    </div>
+                )}
+            </div>
+            {/* Mic / camera selection; switching mid-call swaps tracks in place */}
+            <div className="p-2 text-xs text-muted-foreground border-t dark:border-gray-700">
+                <DevicePicker refreshKey={localStream} onDeviceChange={onSwitchDevice} />
             </div>
             {/* Add some padding/info at the bottom if needed */}
             <div className="p-2 text-xs text-muted-foreground text-center border-t dark:border-gray-700">
-                {isWebRTCActive ? "Video call active" : (status === 'chatting' ? "Video available" : "Video offline")}
+                {isRecovering ? t('video.reconnecting') : isWebRTCActive ? t('video.active') : (status === 'chatting' ? t('video.available') : t('video.unavailable'))}
             </div>
         </div>
     );
@@ -431,22 +715,25 @@ export default function ChatInterface() {
     const messageManager = useMessageManager();
     const inputManager = useInputManager();
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    const [interests, setInterests] = useState<string[]>([]);
+    const [mode, setMode] = useState<ChatMode>('text');
+    const { t } = useI18n();
     
     // WebRTC Signal Handler Ref
-    const handleReceivedSignalRef = useRef<(payload: any) => void>(() => {});
+    const handleReceivedSignalRef = useRef<(payload: SignalingMessage) => void>(() => {});
     
     // WebRTC Hook Callbacks
     const handleStreamError = useCallback((err: Error) => {
         console.error("WebRTC Stream Error:", err);
-        toast.error("Video Error", {
-            description: err.message || "Could not start video stream."
+        toast.error(t('toast.videoError'), {
+            description: err.message || t('toast.videoStreamFailed')
         });
-        messageManager.addSystemMessage(`Video Error: ${err.message}`);
-    }, [messageManager]);
+        messageManager.addSystemMessage('system.videoError', { message: err.message });
+    }, [messageManager, t]);
 
     const handleWebRTCCallEnded = useCallback(() => {
         console.log("[ChatInterface] WebRTC call ended callback received.");
-        messageManager.addSystemMessage("Video call ended.");
+        messageManager.addSystemMessage('system.videoEnded');
     }, [messageManager]);
 
     // Chat Manager Hook
@@ -454,25 +741,56 @@ export default function ChatInterface() {
         status,
         userId,
         partnerId,
+        sharedInterests,
+        chatMode,
         isPartnerTyping,
+        isReconnecting,
+        isPartnerReconnecting,
+        iceServers,
+        editWindowMs,
         connect: connectSocket,
         disconnect: disconnectSocket,
+        block: blockSocketPartner,
         sendMessage: sendSocketMessage,
+        sendFile: sendSocketFile,
+        markMessageRead,
+        sendReaction: sendSocketReaction,
+        editMessage: editSocketMessage,
+        unsendMessage: unsendSocketMessage,
         sendTyping: sendSocketTyping,
         sendSignal: sendSocketSignal,
+        setPeerChannel,
+        receivePeerEvent,
     } = useChatManager({
+        interests,
+        mode,
         onMessageReceived: useCallback((message) => {
             messageManager.addPartnerMessage(message);
         }, [messageManager]),
+        onMessageStatus: useCallback((id, messageStatus, update) => {
+            messageManager.updateMessageStatus(id, messageStatus, update);
+        }, [messageManager]),
+        onAttachmentUpdate: useCallback((id, update) => {
+            messageManager.updateAttachment(id, update);
+        }, [messageManager]),
+        onReaction: useCallback((reaction: Reaction) => {
+            messageManager.setReaction(reaction.messageId, reaction.emoji, 'stranger', reaction.active);
+        }, [messageManager]),
+        onMessageEdited: useCallback((id: string, text: string) => {
+            messageManager.updateMessage(id, { text, edited: true });
+        }, [messageManager]),
+        onMessageRemoved: useCallback((id: string) => {
+            messageManager.removeMessage(id);
+        }, [messageManager]),
         onSignalReceived: useCallback((payload) => {
             handleReceivedSignalRef.current(payload);
         }, []),
-        onSystemMessage: useCallback((text) => {
-            if (text === "A stranger has connected!") {
+        onSystemMessage: useCallback((key, params) => {
+            if (key === 'system.strangerConnected') {
                 messageManager.filterLookingMessages();
             }
-            messageManager.addSystemMessage(text);
-            if (text === "A stranger has connected!") {
+            messageManager.addSystemMessage(key, params);
+            if (key === 'system.strangerConnected') {
                 inputManager.focusInput();
             }
         }, [messageManager, inputManager]),
@@ -483,9 +801,11 @@ export default function ChatInterface() {
         <WebRTCProvider
             userId={userId}
             partnerId={partnerId}
+            iceServers={iceServers}
             sendSignal={sendSocketSignal}
             onStreamError={handleStreamError}
             onCallEnded={handleWebRTCCallEnded}
+            onDataMessage={receivePeerEvent}
         >
             <ChatInterfaceContent
                 messages={messageManager.messages}
@@ -495,10 +815,26 @@ export default function ChatInterface() {
                 status={status}
                 isPartnerTyping={isPartnerTyping}
                 partnerId={partnerId}
+                interests={interests}
+                onInterestsChange={setInterests}
+                mode={mode}
+                onModeChange={setMode}
+                chatMode={chatMode}
+                sharedInterests={sharedInterests}
+                isReconnecting={isReconnecting}
+                isPartnerReconnecting={isPartnerReconnecting}
                 connectSocket={connectSocket}
                 disconnectSocket={disconnectSocket}
+                blockSocketPartner={blockSocketPartner}
                 sendSocketMessage={sendSocketMessage}
+                sendSocketFile={sendSocketFile}
+                markMessageRead={markMessageRead}
+                sendSocketReaction={sendSocketReaction}
+                editSocketMessage={editSocketMessage}
+                unsendSocketMessage={unsendSocketMessage}
+                editWindowMs={editWindowMs}
                 sendSocketTyping={sendSocketTyping}
+                setPeerChannel={setPeerChannel}
                 handleReceivedSignalRef={handleReceivedSignalRef}
             />
         </WebRTCProvider>
@@ -514,11 +850,27 @@ interface ChatInterfaceContentProps {
     status: ChatStatus;
     isPartnerTyping: boolean;
     partnerId: string | null;
+    interests: string[];
+    onInterestsChange: (interests: string[]) => void;
+    mode: ChatMode;
+    onModeChange: (mode: ChatMode) => void;
+    chatMode: ChatMode | null;
+    sharedInterests: string[];
+    isReconnecting: boolean;
+    isPartnerReconnecting: boolean;
     connectSocket: () => void;
     disconnectSocket: (notifyServer?: boolean) => void;
-    sendSocketMessage: (text: string) => void;
+    blockSocketPartner: () => void;
+    sendSocketMessage: (id: string, text: string) => void;
+    sendSocketFile: (id: string, file: File) => void;
+    markMessageRead: (id: string) => void;
+    sendSocketReaction: (reaction: Reaction) => void;
+    editSocketMessage: (id: string, text: string) => Promise<MessageAck>;
+    unsendSocketMessage: (id: string) => Promise<MessageAck>;
+    editWindowMs: number;
     sendSocketTyping: (isTyping: boolean) => void;
-    handleReceivedSignalRef: React.MutableRefObject<(payload: any) => void>;
+    setPeerChannel: (channel: PeerChannel | null) => void;
+    handleReceivedSignalRef: React.MutableRefObject<(payload: SignalingMessage) => void>;
 }
 
 function ChatInterfaceContent({
@@ -529,34 +881,97 @@ function ChatInterfaceContent({
     status,
     isPartnerTyping,
     partnerId,
+    interests,
+    onInterestsChange,
+    mode,
+    onModeChange,
+    chatMode,
+    sharedInterests,
+    isReconnecting,
+    isPartnerReconnecting,
     connectSocket,
     disconnectSocket,
+    blockSocketPartner,
     sendSocketMessage,
+    sendSocketFile,
+    markMessageRead,
+    sendSocketReaction,
+    editSocketMessage,
+    unsendSocketMessage,
+    editWindowMs,
     sendSocketTyping,
+    setPeerChannel,
     handleReceivedSignalRef,
 }: ChatInterfaceContentProps) {
+    const { t } = useI18n();
+
     // Access WebRTC context
     const {
         localStream,
         remoteStream,
         isWebRTCActive,
+        isRecovering,
+        localMediaState,
+        remoteMediaState,
         startVideoCall,
         stopVideoCall,
         receivedSignal: handleReceivedWebRTCSignal,
+        toggleAudio,
+        toggleVideo,
+        switchDevice,
+        isScreenSharing,
+        isRemoteScreenSharing,
+        startScreenShare,
+        stopScreenShare,
+        callStats,
+        callQuality,
+        isDataChannelOpen,
+        sendData,
+        waitForDataChannelDrain,
     } = useWebRTCContext();
 
+    const { archiveCurrent } = useConversationHistory(messages);
+    const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+
+    // An edit in progress can't outlive the chat it belongs to
+    useEffect(() => {
+        if (status !== 'chatting') setEditingMessageId(null);
+    }, [status]);
+
+    // Video chats start the call as soon as they're matched; both sides try and
+    // perfect negotiation settles who offers. Once per chat, so stopping it sticks.
+    const videoAutoStartedRef = useRef(false);
+    useEffect(() => {
+        if (chatMode !== 'video') {
+            videoAutoStartedRef.current = false;
+            return;
+        }
+        if (videoAutoStartedRef.current || status !== 'chatting' || !partnerId) return;
+        videoAutoStartedRef.current = true;
+        if (!isWebRTCActive) {
+            messageManager.addSystemMessage('system.videoStarting');
+            startVideoCall();
+        }
+    }, [chatMode, status, partnerId, isWebRTCActive, startVideoCall, messageManager]);
+
     // Update signal handler ref when it changes
     useEffect(() => {
         handleReceivedSignalRef.current = handleReceivedWebRTCSignal;
     }, [handleReceivedWebRTCSignal, handleReceivedSignalRef]);
 
+    // Chat goes peer-to-peer while the data channel is open; the socket relay covers the rest
+    useEffect(() => {
+        setPeerChannel(isDataChannelOpen ? { send: sendData, drain: waitForDataChannelDrain } : null);
+    }, [isDataChannelOpen, sendData, waitForDataChannelDrain, setPeerChannel]);
+
     // === Action handlers ===
     const handleStartChat = useCallback(() => {
+        archiveCurrent();
         messageManager.clearMessages();
         inputManager.clearInput();
         stopVideoCall(false);
         connectSocket();
-    }, [connectSocket, stopVideoCall, inputManager, messageManager]);
+    }, [connectSocket, stopVideoCall, inputManager, messageManager, archiveCurrent]);
 
     const handleEndChat = useCallback(() => {
         stopVideoCall(true);
@@ -566,24 +981,120 @@ function ChatInterfaceContent({
     const handleNextChat = useCallback(() => {
         stopVideoCall(true);
         disconnectSocket(true);
+        inputManager.clearInput();
+        // Archive once the leave notice has rendered so the saved log ends with it
+        setTimeout(() => {
+            archiveCurrent();
+            messageManager.clearMessages();
+            messageManager.addSystemMessage('system.findingNewPartner');
+            connectSocket();
+        }, 100);
+    }, [disconnectSocket, stopVideoCall, connectSocket, messageManager, inputManager, archiveCurrent]);
+
+    // Block, then move straight on to a new stranger like "Next"
+    const handleBlockChat = useCallback(() => {
+        stopVideoCall(true);
+        // Archive and clear first so the block notice starts the next conversation's log
+        archiveCurrent();
         messageManager.clearMessages();
+        blockSocketPartner();
         inputManager.clearInput();
-        messageManager.addSystemMessage("Finding a new chat partner...");
         setTimeout(() => {
             connectSocket();
         }, 100);
-    }, [disconnectSocket, stopVideoCall, connectSocket, messageManager, inputManager]);
+    }, [blockSocketPartner, stopVideoCall, connectSocket, messageManager, inputManager, archiveCurrent]);
 
-    const handleSendMessage = useCallback(() => {
+    const handleSendMessage = useCallback(async () => {
         if (inputManager.inputValue.trim() && status === "chatting") {
             const text = inputManager.inputValue.trim();
-            sendSocketMessage(text);
-            messageManager.addUserMessage(text);
+            if (editingMessageId) {
+                const id = editingMessageId;
+                setEditingMessageId(null);
+                inputManager.clearInput();
+                const result = await editSocketMessage(id, text);
+                if (result.ok) {
+                    messageManager.updateMessage(id, { text: result.text ?? text, edited: true });
+                } else {
+                    toast.error(t('toast.editFailed'), { description: describeError(result.error, result.params) });
+                }
+                return;
+            }
+            const id = messageManager.addUserMessage(text);
+            sendSocketMessage(id, text);
             inputManager.clearInput();
             sendSocketTyping(false);
             inputManager.focusInput();
         }
-    }, [inputManager, status, sendSocketMessage, messageManager, sendSocketTyping]);
+    }, [inputManager, status, editingMessageId, editSocketMessage, sendSocketMessage, messageManager, sendSocketTyping, t]);
+
+    const handleSendFile = useCallback((file: File) => {
+        if (status !== "chatting") return;
+        const problem = checkAttachment(file.type, file.size);
+        if (problem) {
+            toast.error(t('toast.cantSendFile'), { description: describeError(problem.error, problem.params) });
+            return;
+        }
+        const id = messageManager.addUserAttachment(file);
+        sendSocketFile(id, file);
+    }, [status, messageManager, sendSocketFile, t]);
+
+    const handleRetryMessage = useCallback((message: Message) => {
+        if (status !== 'chatting') {
+            toast.info(t('toast.notConnected'), { description: t('toast.resendOnlyToPartner') });
+            return;
+        }
+        messageManager.updateMessageStatus(message.id, 'sent');
+        const { attachment } = message;
+        if (attachment?.url) {
+            // Re-read the file from our local copy and send it again under the same id
+            messageManager.updateAttachment(message.id, { progress: 0 });
+            fetch(attachment.url)
+                .then(res => res.blob())
+                .then(blob => sendSocketFile(message.id, new File([blob], attachment.name, { type: attachment.mime })))
+                .catch(() => messageManager.updateMessageStatus(message.id, 'failed', { reason: { error: 'fileUnreadable' } }));
+            return;
+        }
+        sendSocketMessage(message.id, message.text);
+    }, [status, messageManager, sendSocketMessage, sendSocketFile, t]);
+
+    // Tapping an emoji we already used takes it back
+    const handleReact = useCallback((message: Message, emoji: string) => {
+        const active = !hasReacted(message.reactions, emoji, 'me');
+        messageManager.setReaction(message.id, emoji, 'me', active);
+        sendSocketReaction({ messageId: message.id, emoji, active });
+    }, [messageManager, sendSocketReaction]);
+
+    // Only our own delivered messages, and only while the change can still reach the partner:
+    // the server doesn't know about messages sent over the data channel, so those need it open
+    const canChangeMessage = useCallback((message: Message) =>
+        status === 'chatting'
+        && message.sender === 'me'
+        && !message.removed
+        && (message.status === 'delivered' || message.status === 'read')
+        && (!message.sentViaPeer || isDataChannelOpen)
+        && Date.now() - message.timestamp < editWindowMs,
+    [status, editWindowMs, isDataChannelOpen]);
+
+    const handleEditMessage = useCallback((message: Message) => {
+        setEditingMessageId(message.id);
+        inputManager.setInputValue(message.text);
+        inputManager.focusInput();
+    }, [inputManager]);
+
+    const handleCancelEdit = useCallback(() => {
+        setEditingMessageId(null);
+        inputManager.clearInput();
+    }, [inputManager]);
+
+    const handleUnsendMessage = useCallback(async (message: Message) => {
+        if (message.id === editingMessageId) handleCancelEdit();
+        const result = await unsendSocketMessage(message.id);
+        if (result.ok) {
+            messageManager.removeMessage(message.id);
+        } else {
+            toast.error(t('toast.unsendFailed'), { description: describeError(result.error, result.params) });
+        }
+    }, [editingMessageId, handleCancelEdit, unsendSocketMessage, messageManager, t]);
 
     const handleToggleVideo = useCallback(() => {
         if (isWebRTCActive) {
@@ -591,14 +1102,22 @@ function ChatInterfaceContent({
             stopVideoCall(true);
         } else if (status === 'chatting' && partnerId) {
             console.log("[ChatInterface] User starting video call.");
-            messageManager.addSystemMessage("Attempting to start video call...");
+            messageManager.addSystemMessage('system.videoStarting');
             startVideoCall();
         } else if (status !== 'chatting') {
-            toast.info("Video Call Disabled", {
-                description: "You must be connected to a partner to start video."
+            toast.info(t('toast.videoDisabled'), {
+                description: t('toast.videoNeedsPartner')
             });
         }
-    }, [isWebRTCActive, status, partnerId, startVideoCall, stopVideoCall, messageManager]);
+    }, [isWebRTCActive, status, partnerId, startVideoCall, stopVideoCall, messageManager, t]);
+
+    const handleToggleScreenShare = useCallback(() => {
+        if (isScreenSharing) {
+            stopScreenShare();
+        } else {
+            startScreenShare();
+        }
+    }, [isScreenSharing, startScreenShare, stopScreenShare]);
 
     // === Render ===
     return (
@@ -607,27 +1126,51 @@ function ChatInterfaceContent({
             <div className="flex flex-col w-full md:w-2/3">
                 <ChatHeader
                     status={status}
+                    messages={messages}
+                    sharedInterests={sharedInterests}
+                    mode={chatMode ?? mode}
+                    isReconnecting={isReconnecting}
+                    isPartnerReconnecting={isPartnerReconnecting}
                     isWebRTCActive={isWebRTCActive}
-                    canStartVideo={status === 'chatting' && !!partnerId}
+                    canStartVideo={status === 'chatting' && !!partnerId && chatMode === 'video'}
+                    canShareScreen={isWebRTCActive && !!localStream}
+                    isScreenSharing={isScreenSharing}
                     onStartChat={handleStartChat}
                     onNextChat={handleNextChat}
                     onEndChat={handleEndChat}
+                    onBlockChat={handleBlockChat}
                     onToggleVideo={handleToggleVideo}
+                    onToggleScreenShare={handleToggleScreenShare}
                 />
+                {(status === 'idle' || status === 'disconnected' || status === 'error') && (
+                    <>
+                        <ChatModePicker value={mode} onChange={onModeChange} />
+                        <InterestTagsInput value={interests} onChange={onInterestsChange} />
+                    </>
+                )}
                 <MessageArea
                     messages={messages}
                     isPartnerTyping={isPartnerTyping}
                     status={status}
                     messagesEndRef={messagesEndRef}
+                    onRetryMessage={handleRetryMessage}
+                    onMessageVisible={markMessageRead}
+                    onReact={status === 'chatting' ? handleReact : undefined}
+                    canChangeMessage={canChangeMessage}
+                    onEditMessage={handleEditMessage}
+                    onUnsendMessage={handleUnsendMessage}
                 />
                 <ChatInput
                     value={inputManager.inputValue}
                     onChange={inputManager.setInputValue}
                     onSend={handleSendMessage}
+                    onSendFile={handleSendFile}
                     onTyping={sendSocketTyping}
-                    disabled={status !== "chatting"}
+                    disabled={status !== "chatting" || isReconnecting}
                     status={status}
                     inputRef={inputManager.inputRef}
+                    isEditing={editingMessageId !== null}
+                    onCancelEdit={handleCancelEdit}
                 />
             </div>
 
@@ -636,8 +1179,18 @@ function ChatInterfaceContent({
                 localStream={localStream}
                 remoteStream={remoteStream}
                 isWebRTCActive={isWebRTCActive}
+                isRecovering={isRecovering}
+                isScreenSharing={isScreenSharing}
+                isRemoteScreenSharing={isRemoteScreenSharing}
+                callStats={callStats}
+                callQuality={callQuality}
+                localMediaState={localMediaState}
+                remoteMediaState={remoteMediaState}
                 status={status}
                 partnerId={partnerId}
+                onToggleMic={toggleAudio}
+                onToggleCamera={toggleVideo}
+                onSwitchDevice={switchDevice}
             />
         </div>
     );
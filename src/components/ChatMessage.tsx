@@ -1,12 +1,178 @@
-import { Message } from "@/types/chat";
+import { useEffect, useRef, useState } from "react";
+import { Check, CheckCheck, AlertCircle, RotateCw, Download, Eye, FileText, ImageIcon, SmilePlus, Pencil, Trash2 } from "lucide-react";
+import { Message, MessageAttachment, MessageReactions } from "@/types/chat";
 import { cn } from "@/lib/utils";
+import { formatFileSize, isImageType } from "@/lib/attachments";
+import { REACTION_EMOJIS, hasReacted } from "@/lib/reactions";
+import RichText from "@/components/RichText";
+import { useI18n } from "@/components/I18nProvider";
+import { errorKey } from "@/lib/i18n";
 import { format } from "date-fns";
 
 interface ChatMessageProps {
   message: Message;
+  onRetry?: (message: Message) => void;
+  onVisible?: (id: string) => void; // Fired once when a stranger's message scrolls into view
+  onReact?: (message: Message, emoji: string) => void; // Toggles our reaction; no picker when unset
+  onEdit?: (message: Message) => void; // Set only while the message can still be edited
+  onUnsend?: (message: Message) => void;
 }
 
-const ChatMessage = ({ message }: ChatMessageProps) => {
+const LONG_PRESS_MS = 500;
+
+const MessageStatusIcon = ({ message }: { message: Message }) => {
+  const { t } = useI18n();
+  switch (message.status) {
+    case "sent": return <Check className="inline w-3 h-3 ml-1" aria-label={t("message.sent")} />;
+    case "delivered": return <CheckCheck className="inline w-3 h-3 ml-1" aria-label={t("message.delivered")} />;
+    case "read": return <CheckCheck className="inline w-3 h-3 ml-1 text-sky-300" aria-label={t("message.read")} />;
+    default: return null;
+  }
+};
+
+// Strangers' images stay blurred until tapped, so nobody gets an unwanted picture full-size
+const AttachmentView = ({ attachment, isMe, failed }: { attachment: MessageAttachment; isMe: boolean; failed: boolean }) => {
+  const { t } = useI18n();
+  const [revealed, setRevealed] = useState(isMe);
+  const { name, mime, size, progress, url, error } = attachment;
+  const isImage = isImageType(mime);
+  const transferring = progress < 1 && !error && !failed;
+
+  return (
+    <div className="flex flex-col gap-1 min-w-40">
+      {isImage && url ? (
+        <button
+          type="button"
+          onClick={() => setRevealed(true)}
+          disabled={revealed}
+          className="relative block overflow-hidden rounded-md"
+          aria-label={revealed ? name : t("attachment.revealLabel", { name })}
+        >
+          <img
+            src={url}
+            alt={name}
+            className={cn("max-h-48 max-w-full object-cover transition", !revealed && "blur-xl scale-110")}
+          />
+          {!revealed && (
+            <span className="absolute inset-0 flex items-center justify-center gap-1 text-xs font-medium text-white bg-black/30">
+              <Eye className="w-4 h-4" />{t("attachment.reveal")}
+            </span>
+          )}
+        </button>
+      ) : isImage ? (
+        <div className="flex items-center justify-center h-24 rounded-md bg-black/10">
+          <ImageIcon className="w-6 h-6 opacity-60" />
+        </div>
+      ) : null}
+      <div className="flex items-center gap-2 text-sm">
+        {!isImage && <FileText className="w-4 h-4 shrink-0" />}
+        <span className="truncate flex-1" title={name}>{name}</span>
+        <span className="text-[11px] opacity-70 shrink-0">{formatFileSize(size)}</span>
+        {url && !transferring && (!isImage || revealed) && (
+          <a href={url} download={name} className="shrink-0" aria-label={t("attachment.download", { name })}>
+            <Download className="w-4 h-4" />
+          </a>
+        )}
+      </div>
+      {transferring && (
+        <div
+          className="h-1 rounded-full bg-black/20 overflow-hidden"
+          role="progressbar"
+          aria-valuenow={Math.round(progress * 100)}
+          aria-valuemin={0}
+          aria-valuemax={100}
+        >
+          <div className="h-full bg-current transition-[width]" style={{ width: `${progress * 100}%` }} />
+        </div>
+      )}
+      {error && (
+        <div className="flex items-center gap-1 text-[11px]">
+          <AlertCircle className="w-3 h-3 shrink-0" />{t(errorKey(error.error), error.params)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ReactionChips = ({ reactions, isMe, onToggle }: {
+  reactions: MessageReactions;
+  isMe: boolean;
+  onToggle?: (emoji: string) => void;
+}) => {
+  const { t } = useI18n();
+  return (
+    <div className={cn("flex flex-wrap gap-1 -mt-1.5 px-1", isMe ? "justify-end" : "justify-start")}>
+      {Object.entries(reactions).map(([emoji, by = []]) => {
+        const mine = by.includes("me");
+        return (
+          <button
+            key={emoji}
+            type="button"
+            onClick={() => onToggle?.(emoji)}
+            disabled={!onToggle}
+            className={cn(
+              "flex items-center gap-0.5 rounded-full border bg-background px-1.5 text-xs shadow-sm",
+              mine && "border-primary bg-primary/10"
+            )}
+            aria-label={mine ? t("message.reactedByMe", { emoji }) : emoji}
+            aria-pressed={mine}
+          >
+            {emoji}{by.length > 1 && <span className="tabular-nums">{by.length}</span>}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+const ChatMessage = ({ message, onRetry, onVisible, onReact, onEdit, onUnsend }: ChatMessageProps) => {
+  const { t } = useI18n();
+  const bubbleRef = useRef<HTMLDivElement>(null);
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const longPressRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastPointerTypeRef = useRef("mouse");
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const watchVisibility = message.sender === "stranger" && !!onVisible;
+
+  useEffect(() => {
+    const node = bubbleRef.current;
+    if (!watchVisibility || !node) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        onVisible?.(message.id);
+        observer.disconnect();
+      }
+    }, { threshold: 0.6 });
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [watchVisibility, onVisible, message.id]);
+
+  // Close the picker on outside click or Escape
+  useEffect(() => {
+    if (!pickerOpen) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!wrapperRef.current?.contains(e.target as Node)) setPickerOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setPickerOpen(false);
+    };
+    document.addEventListener("pointerdown", handlePointerDown);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("pointerdown", handlePointerDown);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [pickerOpen]);
+
+  const cancelLongPress = () => {
+    if (longPressRef.current) {
+      clearTimeout(longPressRef.current);
+      longPressRef.current = null;
+    }
+  };
+  useEffect(() => cancelLongPress, []);
+
   const timestamp = message.timestamp && !isNaN(message.timestamp)
     ? format(new Date(message.timestamp), "HH:mm")
     : '--:--';
@@ -15,7 +181,7 @@ const ChatMessage = ({ message }: ChatMessageProps) => {
     return (
       <div className="flex justify-center my-2 animate-fade-in">
         <div className="px-4 py-1 text-xs italic text-center text-muted-foreground bg-muted/30 rounded-full">
-          {message.text} ({timestamp})
+          {message.notice ? t(message.notice.key, message.notice.params) : message.text} ({timestamp})
         </div>
       </div>
     );
@@ -23,27 +189,159 @@ const ChatMessage = ({ message }: ChatMessageProps) => {
 
   const isMe = message.sender === "me";
 
+  if (message.removed) {
+    return (
+      <div className={cn("flex mb-2", isMe ? "justify-end" : "justify-start")}>
+        <div className="px-3 py-1.5 rounded-xl border border-dashed text-sm italic text-muted-foreground">
+          {isMe ? t("message.removedByMe") : t("message.removed")}
+          <span className="text-[10px] ml-2 opacity-70">{timestamp}</span>
+        </div>
+      </div>
+    );
+  }
+
+  const failed = isMe && message.status === "failed";
+  const canReact = !!onReact && !failed;
+  const hasActions = canReact || !!onEdit || !!onUnsend;
+
+  const handleReact = (emoji: string) => {
+    setPickerOpen(false);
+    onReact?.(message, emoji);
+  };
+
+  // Touch has no hover, so a long press opens the picker instead
+  const handlePointerDown = (e: React.PointerEvent) => {
+    lastPointerTypeRef.current = e.pointerType;
+    if (!canReact || e.pointerType === "mouse") return;
+    cancelLongPress();
+    longPressRef.current = setTimeout(() => setPickerOpen(true), LONG_PRESS_MS);
+  };
+
   return (
     <div className={cn(
       "flex mb-2 animate-slide-in",
       isMe ? "justify-end" : "justify-start"
     )}>
-      <div className={cn(
-        "max-w-[75%] px-3 py-1.5 rounded-xl break-words shadow-sm",
-        isMe
-          ? "bg-primary text-primary-foreground rounded-br-none"
-          : "bg-secondary dark:bg-gray-700 text-secondary-foreground dark:text-gray-200 rounded-tl-none"
-      )}>
-        <div className="text-sm">{message.text}</div>
-        <div className={cn(
-          "text-[10px] mt-0.5 text-right opacity-70",
-           isMe ? "text-primary-foreground/70" : "text-muted-foreground"
-        )}>
-          {timestamp}
+      <div ref={wrapperRef} className={cn("group relative flex flex-col max-w-[75%]", isMe ? "items-end" : "items-start")}>
+        {pickerOpen && canReact && (
+          <div
+            role="menu"
+            aria-label={t("message.reactMenu")}
+            className={cn(
+              "absolute bottom-full mb-1 z-10 flex gap-0.5 rounded-full border bg-popover p-1 shadow-md",
+              isMe ? "right-0" : "left-0"
+            )}
+          >
+            {REACTION_EMOJIS.map(emoji => (
+              <button
+                key={emoji}
+                type="button"
+                role="menuitem"
+                onClick={() => handleReact(emoji)}
+                className={cn(
+                  "rounded-full px-1.5 py-0.5 text-lg leading-none hover:bg-accent transition-transform hover:scale-110",
+                  hasReacted(message.reactions, emoji, "me") && "bg-primary/10"
+                )}
+                aria-label={t("message.reactWith", { emoji })}
+              >
+                {emoji}
+              </button>
+            ))}
+          </div>
+        )}
+        {hasActions && (
+          <div className={cn(
+            "absolute top-1 flex items-center gap-0.5 text-muted-foreground",
+            "opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity",
+            isMe ? "right-full mr-1 flex-row-reverse" : "left-full ml-1"
+          )}>
+            {canReact && (
+              <button
+                type="button"
+                onClick={() => setPickerOpen(prev => !prev)}
+                className="p-1 rounded-full hover:bg-accent"
+                aria-label={t("message.react")}
+                aria-expanded={pickerOpen}
+              >
+                <SmilePlus className="w-4 h-4" />
+              </button>
+            )}
+            {onEdit && (
+              <button
+                type="button"
+                onClick={() => onEdit(message)}
+                className="p-1 rounded-full hover:bg-accent"
+                aria-label={t("message.edit")}
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+            )}
+            {onUnsend && (
+              <button
+                type="button"
+                onClick={() => onUnsend(message)}
+                className="p-1 rounded-full hover:bg-accent"
+                aria-label={t("message.unsend")}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        )}
+        <div
+          ref={bubbleRef}
+          onPointerDown={handlePointerDown}
+          onPointerUp={cancelLongPress}
+          onPointerLeave={cancelLongPress}
+          onPointerCancel={cancelLongPress}
+          onContextMenu={e => canReact && lastPointerTypeRef.current !== "mouse" && e.preventDefault()}
+          className={cn(
+            "max-w-full px-3 py-1.5 rounded-xl break-words shadow-sm",
+            isMe
+              ? "bg-primary text-primary-foreground rounded-br-none"
+              : "bg-secondary dark:bg-gray-700 text-secondary-foreground dark:text-gray-200 rounded-tl-none",
+            failed && "opacity-70"
+          )}
+        >
+          {message.attachment
+            ? <AttachmentView attachment={message.attachment} isMe={isMe} failed={failed} />
+            : <RichText text={message.text} className="text-sm" />}
+          <div className={cn(
+            "text-[10px] mt-0.5 text-right opacity-70",
+             isMe ? "text-primary-foreground/70" : "text-muted-foreground"
+          )}>
+            {message.edited && <span className="mr-1">{t("message.edited")}</span>}
+            {timestamp}
+            {isMe && <MessageStatusIcon message={message} />}
+          </div>
+          {failed && (
+            <div className="flex items-center justify-end gap-1 text-[11px] mt-0.5">
+              <AlertCircle className="w-3 h-3 shrink-0" />
+              {message.failureReason
+                ? t(errorKey(message.failureReason.error), message.failureReason.params)
+                : t("message.notDelivered")}
+              {onRetry && (
+                <button
+                  type="button"
+                  onClick={() => onRetry(message)}
+                  className="flex items-center underline ml-1"
+                >
+                  <RotateCw className="w-3 h-3 mr-0.5" />{t("message.retry")}
+                </button>
+              )}
+            </div>
+          )}
         </div>
+        {message.reactions && Object.keys(message.reactions).length > 0 && (
+          <ReactionChips
+            reactions={message.reactions}
+            isMe={isMe}
+            onToggle={canReact ? handleReact : undefined}
+          />
+        )}
       </div>
     </div>
   );
 };
 
-export default ChatMessage;
\ No newline at end of file
+export default ChatMessage;
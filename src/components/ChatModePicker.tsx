@@ -0,0 +1,50 @@
+'use client';
+
+import React from 'react';
+import { MessageSquare, Video } from 'lucide-react';
+import { useI18n } from '@/components/I18nProvider';
+import { ChatMode } from '@/types/chat';
+
+interface ChatModePickerProps {
+    value: ChatMode;
+    onChange: (mode: ChatMode) => void;
+    disabled?: boolean;
+}
+
+const MODES: { mode: ChatMode; icon: typeof Video }[] = [
+    { mode: 'text', icon: MessageSquare },
+    { mode: 'video', icon: Video },
+];
+
+const ChatModePicker: React.FC<ChatModePickerProps> = ({ value, onChange, disabled = false }) => {
+    const { t } = useI18n();
+
+    return (
+        <div className="flex items-center gap-2 px-4 py-2 border-b dark:border-gray-700 text-sm">
+            <span className="text-muted-foreground" id="chat-mode-label">{t('mode.label')}</span>
+            <div role="radiogroup" aria-labelledby="chat-mode-label" className="inline-flex rounded-md border border-input p-0.5">
+                {MODES.map(({ mode, icon: Icon }) => (
+                    <button
+                        key={mode}
+                        type="button"
+                        role="radio"
+                        aria-checked={value === mode}
+                        onClick={() => onChange(mode)}
+                        disabled={disabled}
+                        title={mode === 'video' ? t('mode.videoTitle') : t('mode.textTitle')}
+                        className={`flex items-center gap-1.5 rounded px-2.5 py-1 text-xs transition-colors disabled:opacity-50 ${
+                            value === mode
+                                ? 'bg-primary text-primary-foreground'
+                                : 'text-muted-foreground hover:text-foreground'
+                        }`}
+                    >
+                        <Icon className="w-3.5 h-3.5" />
+                        {mode === 'video' ? t('mode.video') : t('mode.text')}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default ChatModePicker;
@@ -0,0 +1,67 @@
+'use client';
+
+import React from 'react';
+import { SignalHigh, SignalLow, SignalMedium } from 'lucide-react';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { CallQuality, CallStats } from '@/lib/callStats';
+import { cn } from '@/lib/utils';
+import { MessageKey } from '@/lib/i18n';
+import { useI18n } from '@/components/I18nProvider';
+
+interface ConnectionQualityBadgeProps {
+    quality: CallQuality;
+    stats: CallStats;
+    className?: string;
+}
+
+const QUALITY_DISPLAY: Record<CallQuality, { Icon: typeof SignalHigh; color: string; label: MessageKey }> = {
+    good: { Icon: SignalHigh, color: 'text-green-400', label: 'quality.good' },
+    fair: { Icon: SignalMedium, color: 'text-amber-400', label: 'quality.fair' },
+    poor: { Icon: SignalLow, color: 'text-red-400', label: 'quality.poor' },
+};
+
+const formatNumber = (value: number | null, unit: string, digits = 0) =>
+    value === null ? '—' : `${value.toFixed(digits)} ${unit}`;
+
+const ConnectionQualityBadge: React.FC<ConnectionQualityBadgeProps> = ({ quality, stats, className }) => {
+    const { t } = useI18n();
+    const { Icon, color } = QUALITY_DISPLAY[quality];
+    const label = t(QUALITY_DISPLAY[quality].label);
+
+    const rows: [string, string][] = [
+        [t('quality.roundTrip'), formatNumber(stats.rttMs, 'ms')],
+        [t('quality.packetLoss'), stats.packetLoss === null ? '—' : `${(stats.packetLoss * 100).toFixed(1)} %`],
+        [t('quality.jitter'), formatNumber(stats.jitterMs, 'ms')],
+        [t('quality.receiving'), formatNumber(stats.inboundKbps, 'kbps')],
+        [t('quality.sending'), formatNumber(stats.outboundKbps, 'kbps')],
+        [t('quality.resolution'), stats.resolution ? `${stats.resolution.width}×${stats.resolution.height}` : '—'],
+        [t('quality.route'), stats.relayed ? t('quality.relayed') : t('quality.direct')],
+    ];
+
+    return (
+        <Tooltip>
+            <TooltipTrigger asChild>
+                <button
+                    type="button"
+                    className={cn("bg-black/50 p-1 rounded-full", color, className)}
+                    aria-label={label}
+                >
+                    <Icon className="w-4 h-4" />
+                </button>
+            </TooltipTrigger>
+            <TooltipContent side="left">
+                <div className="font-medium mb-1">{label}</div>
+                <dl className="grid grid-cols-[auto_auto] gap-x-3 gap-y-0.5">
+                    {rows.map(([name, value]) => (
+                        <React.Fragment key={name}>
+                            <dt className="opacity-70">{name}</dt>
+                            <dd className="text-right tabular-nums">{value}</dd>
+                        </React.Fragment>
+                    ))}
+                </dl>
+            </TooltipContent>
+        </Tooltip>
+    );
+};
+
+export default ConnectionQualityBadge;
@@ -0,0 +1,56 @@
+'use client';
+
+import React from 'react';
+import { Mic, Video } from 'lucide-react';
+import { useMediaDevices } from '@/hooks/useMediaDevices';
+import { InputDeviceKind } from '@/lib/mediaDevices';
+import { useI18n } from '@/components/I18nProvider';
+
+interface DevicePickerProps {
+    refreshKey?: unknown; // Change to re-list devices, e.g. the local stream once permission is granted
+    onDeviceChange: (kind: InputDeviceKind, deviceId: string) => void;
+    disabled?: boolean;
+}
+
+const DevicePicker: React.FC<DevicePickerProps> = ({ refreshKey, onDeviceChange, disabled = false }) => {
+    const { audioInputs, videoInputs, selected, select } = useMediaDevices(refreshKey);
+    const { t } = useI18n();
+
+    // Browsers hide device names until media permission is granted
+    const deviceLabel = (device: MediaDeviceInfo, index: number) => device.label || t('devices.numbered', {
+        kind: t(device.kind === 'audioinput' ? 'devices.microphone' : 'devices.camera'),
+        number: index + 1,
+    });
+
+    const handleChange = (kind: InputDeviceKind) => (e: React.ChangeEvent<HTMLSelectElement>) => {
+        select(kind, e.target.value);
+        onDeviceChange(kind, e.target.value);
+    };
+
+    const renderSelect = (kind: InputDeviceKind, devices: MediaDeviceInfo[], Icon: typeof Mic, label: string) => (
+        <label className="flex items-center gap-2 min-w-0">
+            <Icon className="w-3.5 h-3.5 shrink-0" aria-hidden />
+            <span className="sr-only">{label}</span>
+            <select
+                value={selected[kind] ?? ''}
+                onChange={handleChange(kind)}
+                disabled={disabled}
+                className="flex-1 min-w-0 truncate rounded-md border border-input bg-background px-2 py-1 text-xs disabled:opacity-50"
+            >
+                <option value="">{t('devices.default')}</option>
+                {devices.filter(device => device.deviceId).map((device, index) => (
+                    <option key={device.deviceId} value={device.deviceId}>{deviceLabel(device, index)}</option>
+                ))}
+            </select>
+        </label>
+    );
+
+    return (
+        <div className="flex flex-col gap-1.5">
+            {renderSelect('audioinput', audioInputs, Mic, t('devices.microphone'))}
+            {renderSelect('videoinput', videoInputs, Video, t('devices.camera'))}
+        </div>
+    );
+};
+
+export default DevicePicker;
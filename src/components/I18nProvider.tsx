@@ -0,0 +1,56 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import {
+  DEFAULT_LOCALE,
+  Locale,
+  MessageKey,
+  TranslationParams,
+  detectLocale,
+  saveLocale,
+  setActiveLocale,
+  translate,
+} from '@/lib/i18n';
+
+interface I18nContextType {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: TranslationParams) => string;
+}
+
+const I18nContext = createContext<I18nContextType | null>(null);
+
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  // The server always renders the default; the detected locale is applied after hydration
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+
+  useEffect(() => {
+    setLocaleState(detectLocale());
+  }, []);
+
+  useEffect(() => {
+    setActiveLocale(locale);
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    saveLocale(next);
+    setLocaleState(next);
+  }, []);
+
+  const value = useMemo<I18nContextType>(() => ({
+    locale,
+    setLocale,
+    t: (key, params) => translate(locale, key, params),
+  }), [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n() {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error("useI18n must be used within an I18nProvider");
+  }
+  return context;
+}
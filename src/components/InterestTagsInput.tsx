@@ -0,0 +1,81 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Hash, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { useI18n } from '@/components/I18nProvider';
+
+// Keep in sync with MAX_INTERESTS / MAX_INTEREST_LENGTH in backend/server.js
+const MAX_INTERESTS = 5;
+const MAX_INTEREST_LENGTH = 24;
+
+interface InterestTagsInputProps {
+    value: string[];
+    onChange: (interests: string[]) => void;
+    disabled?: boolean;
+}
+
+const normalizeInterest = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const InterestTagsInput: React.FC<InterestTagsInputProps> = ({ value, onChange, disabled = false }) => {
+    const [draft, setDraft] = useState('');
+    const { t } = useI18n();
+
+    const addInterest = () => {
+        const tag = normalizeInterest(draft);
+        setDraft('');
+        if (!tag || value.includes(tag) || value.length >= MAX_INTERESTS) return;
+        onChange([...value, tag]);
+    };
+
+    const removeInterest = (tag: string) => {
+        onChange(value.filter(existing => existing !== tag));
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            addInterest();
+        } else if (e.key === 'Backspace' && !draft && value.length > 0) {
+            removeInterest(value[value.length - 1]);
+        }
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-1.5 px-4 py-2 border-b dark:border-gray-700 text-sm">
+            <span className="flex items-center text-muted-foreground mr-1">
+                <Hash className="w-4 h-4 mr-1" />Interests
+            </span>
+            {value.map(tag => (
+                <span key={tag} className="flex items-center rounded-full bg-secondary dark:bg-gray-700 px-2 py-0.5 text-xs">
+                    {tag}
+                    {!disabled && (
+                        <button
+                            type="button"
+                            onClick={() => removeInterest(tag)}
+                            className="ml-1 text-muted-foreground hover:text-foreground"
+                            aria-label={t('interests.remove', { tag })}
+                        >
+                            <X className="w-3 h-3" />
+                        </button>
+                    )}
+                </span>
+            ))}
+            {value.length < MAX_INTERESTS && (
+                <Input
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    onBlur={addInterest}
+                    placeholder={value.length === 0 ? t('interests.placeholder') : t('interests.placeholderMore')}
+                    disabled={disabled}
+                    maxLength={MAX_INTEREST_LENGTH}
+                    className="h-7 flex-1 min-w-[10rem] border-none shadow-none focus-visible:ring-0 px-1"
+                    aria-label={t('interests.add')}
+                />
+            )}
+        </div>
+    );
+};
+
+export default InterestTagsInput;
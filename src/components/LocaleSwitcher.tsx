@@ -0,0 +1,27 @@
+'use client';
+
+import { Languages } from 'lucide-react';
+import { useI18n } from '@/components/I18nProvider';
+import { LOCALES, LOCALE_NAMES, isLocale } from '@/lib/i18n';
+
+const LocaleSwitcher = () => {
+    const { locale, setLocale, t } = useI18n();
+
+    return (
+        <label className="flex items-center gap-1.5 text-sm text-muted-foreground">
+            <Languages className="w-4 h-4" aria-hidden />
+            <span className="sr-only">{t('app.language')}</span>
+            <select
+                value={locale}
+                onChange={e => isLocale(e.target.value) && setLocale(e.target.value)}
+                className="rounded-md border border-input bg-background px-1.5 py-0.5 text-sm"
+            >
+                {LOCALES.map(code => (
+                    <option key={code} value={code} lang={code}>{LOCALE_NAMES[code]}</option>
+                ))}
+            </select>
+        </label>
+    );
+};
+
+export default LocaleSwitcher;
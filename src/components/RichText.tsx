@@ -0,0 +1,49 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { RichNode, leavePageHref, parseRichText } from '@/lib/richText';
+import { cn } from '@/lib/utils';
+
+interface RichTextProps {
+    text: string;
+    className?: string;
+}
+
+const renderNodes = (nodes: RichNode[]): React.ReactNode[] => nodes.map((node, index) => {
+    switch (node.type) {
+        case 'text':
+            return node.text;
+        case 'bold':
+            return <strong key={index}>{renderNodes(node.children)}</strong>;
+        case 'italic':
+            return <em key={index}>{renderNodes(node.children)}</em>;
+        case 'code':
+            return <code key={index} className="rounded bg-black/10 dark:bg-white/10 px-1 font-mono text-[0.85em]">{node.text}</code>;
+        case 'codeBlock':
+            return (
+                <pre key={index} className="my-1 rounded bg-black/10 dark:bg-white/10 p-2 font-mono text-xs whitespace-pre-wrap">
+                    <code>{node.text}</code>
+                </pre>
+            );
+        case 'link':
+            // Links leave through the interstitial in a new tab, so the chat stays open
+            return (
+                <a
+                    key={index}
+                    href={leavePageHref(node.href)}
+                    target="_blank"
+                    rel="noopener noreferrer nofollow"
+                    className="underline underline-offset-2 break-all"
+                >
+                    {node.text}
+                </a>
+            );
+    }
+});
+
+const RichText: React.FC<RichTextProps> = ({ text, className }) => {
+    const nodes = useMemo(() => parseRichText(text), [text]);
+    return <div className={cn('whitespace-pre-wrap', className)}>{renderNodes(nodes)}</div>;
+};
+
+export default RichText;
@@ -0,0 +1,93 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { TranscriptFormat, downloadTranscript } from '@/lib/transcript';
+import { Message } from '@/types/chat';
+import { MessageKey } from '@/lib/i18n';
+import { useI18n } from '@/components/I18nProvider';
+
+interface TranscriptExportMenuProps {
+    messages: Message[];
+    disabled?: boolean;
+}
+
+const FORMAT_OPTIONS: { format: TranscriptFormat; label: MessageKey }[] = [
+    { format: 'txt', label: 'export.txt' },
+    { format: 'md', label: 'export.md' },
+    { format: 'json', label: 'export.json' },
+];
+
+const TranscriptExportMenu: React.FC<TranscriptExportMenuProps> = ({ messages, disabled = false }) => {
+    const { t } = useI18n();
+    const [open, setOpen] = useState(false);
+    const [includeSystem, setIncludeSystem] = useState(true);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    // Close on outside click or Escape
+    useEffect(() => {
+        if (!open) return;
+        const handlePointerDown = (e: PointerEvent) => {
+            if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+        };
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') setOpen(false);
+        };
+        document.addEventListener('pointerdown', handlePointerDown);
+        document.addEventListener('keydown', handleKeyDown);
+        return () => {
+            document.removeEventListener('pointerdown', handlePointerDown);
+            document.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [open]);
+
+    const handleExport = (format: TranscriptFormat) => {
+        downloadTranscript(messages, format, { includeSystem });
+        setOpen(false);
+    };
+
+    return (
+        <div ref={menuRef} className="relative">
+            <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setOpen(prev => !prev)}
+                disabled={disabled}
+                title={t('export.title')}
+                aria-haspopup="menu"
+                aria-expanded={open}
+            >
+                <Download className="w-4 h-4" /> <span className="hidden sm:inline ml-2">{t('export.button')}</span>
+            </Button>
+            {open && (
+                <div
+                    role="menu"
+                    className="absolute right-0 z-20 mt-1 w-52 rounded-md border bg-popover text-popover-foreground shadow-md p-1 text-sm"
+                >
+                    {FORMAT_OPTIONS.map(({ format, label }) => (
+                        <button
+                            key={format}
+                            type="button"
+                            role="menuitem"
+                            onClick={() => handleExport(format)}
+                            className="w-full text-left rounded-sm px-2 py-1.5 hover:bg-accent hover:text-accent-foreground"
+                        >
+                            {t(label)}
+                        </button>
+                    ))}
+                    <label className="flex items-center gap-2 border-t mt-1 px-2 pt-2 pb-1 text-xs text-muted-foreground">
+                        <input
+                            type="checkbox"
+                            checked={includeSystem}
+                            onChange={e => setIncludeSystem(e.target.checked)}
+                        />
+                        {t('export.includeSystem')}
+                    </label>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TranscriptExportMenu;
@@ -5,9 +5,10 @@ import React, { useRef, useEffect } from 'react';
 interface VideoPlayerProps {
     stream: MediaStream | null;
     muted?: boolean;
+    fit?: 'cover' | 'contain'; // 'contain' letterboxes, e.g. for a shared screen that shouldn't be cropped
 }
 
-const VideoPlayer: React.FC<VideoPlayerProps> = ({ stream, muted = false }) => {
+const VideoPlayer: React.FC<VideoPlayerProps> = ({ stream, muted = false, fit = 'cover' }) => {
     const videoRef = useRef<HTMLVideoElement>(null);
 
     useEffect(() => {
@@ -24,7 +25,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ stream, muted = false }) => {
             autoPlay
             playsInline
             muted={muted}
-            className="w-full h-full object-cover"
+            className={`w-full h-full ${fit === 'contain' ? 'object-contain' : 'object-cover'}`}
         />
     );
 };
@@ -3,15 +3,32 @@
 import React, { useState, useEffect, useRef, useCallback, createContext, useContext } from 'react';
 import { toast } from 'sonner';
 import { useWebRTC } from '@/hooks/useWebRTC';
-import { SignalingMessage } from '@/types/chat';
+import { MediaState, OutgoingSignal, SignalingMessage } from '@/types/chat';
+import { InputDeviceKind } from '@/lib/mediaDevices';
+import { CallQuality, CallStats } from '@/lib/callStats';
 
 interface WebRTCContextType {
   localStream: MediaStream | null;
   remoteStream: MediaStream | null;
   isWebRTCActive: boolean;
+  isRecovering: boolean;
+  localMediaState: MediaState;
+  remoteMediaState: MediaState;
   startVideoCall: () => void;
   stopVideoCall: (notifyPartner?: boolean) => void;
   receivedSignal: (message: SignalingMessage) => void;
+  toggleAudio: () => void;
+  toggleVideo: () => void;
+  switchDevice: (kind: InputDeviceKind, deviceId: string) => Promise<void>;
+  isScreenSharing: boolean;
+  isRemoteScreenSharing: boolean;
+  startScreenShare: () => Promise<void>;
+  stopScreenShare: () => Promise<void>;
+  callStats: CallStats | null;
+  callQuality: CallQuality | null;
+  isDataChannelOpen: boolean;
+  sendData: (data: object) => boolean;
+  waitForDataChannelDrain: () => Promise<boolean>;
 }
 
 const WebRTCContext = createContext<WebRTCContextType | null>(null);
@@ -19,34 +36,40 @@ const WebRTCContext = createContext<WebRTCContextType | null>(null);
 interface WebRTCProviderProps {
   userId: string | null;
   partnerId: string | null;
-  sendSignal: (payload: Omit<SignalingMessage, 'sender' | 'target'>) => void;
+  iceServers?: RTCIceServer[] | null;
+  sendSignal: (payload: OutgoingSignal) => void;
   onStreamError?: (error: Error) => void;
   onCallEnded?: () => void;
+  onDataMessage?: (data: unknown) => void;
   children: React.ReactNode;
 }
 
 export function WebRTCProvider({
   userId,
   partnerId,
+  iceServers,
   sendSignal,
   onStreamError = () => {},
   onCallEnded = () => {},
+  onDataMessage = () => {},
   children
 }: WebRTCProviderProps) {
   // Stable reference to callbacks
   const sendSignalRef = useRef(sendSignal);
   const onStreamErrorRef = useRef(onStreamError);
   const onCallEndedRef = useRef(onCallEnded);
+  const onDataMessageRef = useRef(onDataMessage);
   
   // Update refs when props change
   useEffect(() => {
     sendSignalRef.current = sendSignal;
     onStreamErrorRef.current = onStreamError;
     onCallEndedRef.current = onCallEnded;
-  }, [sendSignal, onStreamError, onCallEnded]);
+    onDataMessageRef.current = onDataMessage;
+  }, [sendSignal, onStreamError, onCallEnded, onDataMessage]);
 
   // Memoize the sendSignal function to prevent it from changing on renders
-  const memoizedSendSignal = useCallback((payload: Omit<SignalingMessage, 'sender' | 'target'>) => {
+  const memoizedSendSignal = useCallback((payload: OutgoingSignal) => {
     if (userId && partnerId) {
       console.log(`[WebRTCProvider] Forwarding signal: ${payload.type}`);
       sendSignalRef.current(payload);
@@ -59,6 +82,7 @@ export function WebRTCProvider({
   const webRTC = useWebRTC({
     userId,
     partnerId,
+    iceServers,
     sendSignal: memoizedSendSignal,
     onStreamError: useCallback((err: Error) => {
       console.error("[WebRTCProvider] Stream error:", err);
@@ -68,6 +92,9 @@ export function WebRTCProvider({
       console.log("[WebRTCProvider] Call ended callback");
       onCallEndedRef.current();
     }, []),
+    onDataMessage: useCallback((data: unknown) => {
+      onDataMessageRef.current(data);
+    }, []),
   });
 
   // Log when this component mounts/unmounts to help debug
@@ -1,86 +1,362 @@
 // hooks/useChatManager.ts
 
 import { useState, useRef, useCallback, useEffect } from 'react';
-import { v4 as uuidv4 } from 'uuid';
 import { toast } from 'sonner';
-import { Message,ChatStatus, SignalingMessage } from '@/types/chat';
+import {
+  Message,
+  MessageAck,
+  MessageAttachment,
+  ChatMode,
+  ChatStatus,
+  FileChunk,
+  FileStart,
+  MessageStatus,
+  MessageStatusUpdate,
+  OutgoingSignal,
+  PeerChatEvent,
+  Reaction,
+  SignalingMessage
+} from '@/types/chat';
 import { 
+  ChatConfig,
+  MESSAGE_ACK_TIMEOUT_MS,
   SocketInstance,
   cleanupSocket,
   createSocketConnection,
   sendMessage as emitMessage,
+  sendReadReceipt as emitReadReceipt,
   sendTyping as emitTyping,
   sendSignal as emitSignal,
-  leaveChat
+  sendFileStart as emitFileStart,
+  sendFileChunk as emitFileChunk,
+  sendReaction as emitReaction,
+  sendEdit as emitEdit,
+  sendUnsend as emitUnsend,
+  sendPeerFlag as emitPeerFlag,
+  leaveChat,
+  blockPartner as emitBlock
 } from '@/lib/socket';
+import { publishStats } from '@/lib/stats';
+import { ErrorCode, MessageKey, TranslationParams, describeError, t } from '@/lib/i18n';
+import { parseSignal } from '@/lib/signaling';
+import { createPeerFilters, createPeerLimiter, filterPeerMessage, parsePeerEvent } from '@/lib/peerChat';
+import {
+  IncomingTransfer,
+  MAX_ACTIVE_TRANSFERS,
+  appendChunk,
+  assembleTransfer,
+  checkAttachment,
+  describeFile,
+  parseFileChunk,
+  parseFileStart,
+  readChunk,
+} from '@/lib/attachments';
+
+// Over the data channel the partner acks a file once it's all there; up to a
+// megabyte can still be in the send buffer when our last chunk is queued
+const FILE_ACK_TIMEOUT_MS = 30000;
+
+// Slack on the receiving side's edit window check, for delivery delay
+const EDIT_WINDOW_GRACE_MS = 5000;
 
 interface UseChatManagerProps {
+  interests?: string[];
+  mode?: ChatMode; // Which queue to join; takes effect on the next connect
   onMessageReceived: (message: Message) => void;
+  onMessageStatus: (id: string, status: MessageStatus, update?: MessageStatusUpdate) => void;
+  onAttachmentUpdate: (id: string, update: Partial<MessageAttachment>) => void; // Transfer progress, either direction
+  onReaction: (reaction: Reaction) => void; // The partner reacted to one of the messages
+  onMessageEdited: (id: string, text: string) => void; // The partner edited one of their messages
+  onMessageRemoved: (id: string) => void; // The partner unsent one of their messages
   onSignalReceived: (payload: SignalingMessage) => void;
-  onSystemMessage: (text: string) => void;
+  onSystemMessage: (key: MessageKey, params?: TranslationParams) => void;
 }
 
 interface UseChatManagerReturn {
   status: ChatStatus;
   userId: string | null;
   partnerId: string | null;
+  sharedInterests: string[];
+  chatMode: ChatMode | null; // Mode of the current chat, as the server matched it
   isPartnerTyping: boolean;
+  isReconnecting: boolean;
+  isPartnerReconnecting: boolean;
+  iceServers: RTCIceServer[] | null; // Issued by the server on connect; null until received
+  editWindowMs: number; // How long our messages stay editable; 0 until the server says
   connect: () => void;
   disconnect: (notifyServer?: boolean) => void;
-  sendMessage: (text: string) => void;
+  block: () => void;
+  sendMessage: (id: string, text: string) => void;
+  sendFile: (id: string, file: File) => void; // Chunked, over whichever transport is current when it starts
+  markMessageRead: (id: string) => void;
+  sendReaction: (reaction: Reaction) => void;
+  editMessage: (id: string, text: string) => Promise<MessageAck>; // ok may carry the masked text
+  unsendMessage: (id: string) => Promise<MessageAck>;
   sendTyping: (isTyping: boolean) => void;
-  sendSignal: (payload: Omit<SignalingMessage, 'sender' | 'target'>) => void;
+  sendSignal: (payload: OutgoingSignal) => void;
+  setPeerChannel: (channel: PeerChannel | null) => void; // Attach/detach the WebRTC data channel
+  receivePeerEvent: (data: unknown) => void; // Feed data channel messages in here
+}
+
+// The WebRTC data channel as the chat sees it
+export interface PeerChannel {
+  send: (event: PeerChatEvent) => boolean; // false means it couldn't (use the socket instead)
+  drain: () => Promise<boolean>; // Waits out a full send buffer; false if the channel closed
 }
 
 export function useChatManager({
+  interests = [],
+  mode = 'text',
   onMessageReceived,
+  onMessageStatus,
+  onAttachmentUpdate,
+  onReaction,
+  onMessageEdited,
+  onMessageRemoved,
   onSignalReceived,
   onSystemMessage,
 }: UseChatManagerProps): UseChatManagerReturn {
   const [status, setStatus] = useState<ChatStatus>("idle");
   const [userId, setUserId] = useState<string | null>(null);
   const [partnerId, setPartnerId] = useState<string | null>(null);
+  const [sharedInterests, setSharedInterests] = useState<string[]>([]);
+  const [chatMode, setChatMode] = useState<ChatMode | null>(null);
   const [isPartnerTyping, setIsPartnerTyping] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  const [isPartnerReconnecting, setIsPartnerReconnecting] = useState(false);
+  const [iceServers, setIceServers] = useState<RTCIceServer[] | null>(null);
+  const [editWindowMs, setEditWindowMs] = useState(0);
 
   const socketRef = useRef<SocketInstance | null>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const resumeTokenRef = useRef<string | null>(null);
+  // Read receipts are batched so a burst of visible messages costs one emit
+  const pendingReadsRef = useRef<Set<string>>(new Set());
+  const reportedReadsRef = useRef<Set<string>>(new Set());
+  const readFlushTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Peer-to-peer path: used for chat events whenever a data channel is attached.
+  // Messages keep their id on both paths and received ids are remembered (with
+  // when they arrived), so a message that falls back to the relay after a lost
+  // peer ack is shown only once, and the partner's edits can be window-checked.
+  const peerChannelRef = useRef<PeerChannel | null>(null);
+  const peerAckTimersRef = useRef<Map<string, NodeJS.Timeout>>(new Map());
+  const receivedMessageIdsRef = useRef<Map<string, number>>(new Map());
+  const editWindowMsRef = useRef(0);
+  const chatStartedAtRef = useRef<number | null>(null);
+  // What the relay enforces, applied by us to the partner's peer events (see peerChat.ts)
+  const peerFiltersRef = useRef(createPeerFilters());
+  const peerRateLimitsRef = useRef<ChatConfig['rateLimits']>({});
+  const peerLimiterRef = useRef(createPeerLimiter({}));
+  const peerFloodReportedRef = useRef(false);
+
+  // File transfers. Incoming ones are assembled here and handed over as object URLs;
+  // failed ones stay in the map so a retry from the sender can restart them.
+  // Outgoing loops stop once the generation changes (the chat was torn down).
+  const incomingTransfersRef = useRef<Map<string, IncomingTransfer>>(new Map());
+  const transferGenerationRef = useRef(0);
+
+  // Socket handlers are created once per connection, so they read status through a ref
+  const statusRef = useRef<ChatStatus>(status);
+  useEffect(() => {
+    statusRef.current = status;
+  }, [status]);
 
   // Stable callback references using useRef - prevents listener re-attachment issues
-  const stableCallbacks = useRef({ onMessageReceived, onSignalReceived, onSystemMessage });
+  const stableCallbacks = useRef({
+    onMessageReceived, onMessageStatus, onAttachmentUpdate, onReaction, onMessageEdited, onMessageRemoved, onSignalReceived, onSystemMessage,
+  });
+  useEffect(() => {
+    stableCallbacks.current = {
+      onMessageReceived, onMessageStatus, onAttachmentUpdate, onReaction, onMessageEdited, onMessageRemoved, onSignalReceived, onSystemMessage,
+    };
+  }, [onMessageReceived, onMessageStatus, onAttachmentUpdate, onReaction, onMessageEdited, onMessageRemoved, onSignalReceived, onSystemMessage]);
+
+  // Read at connect time so "Next" reuses whatever tags are currently entered
+  const interestsRef = useRef(interests);
   useEffect(() => {
-    stableCallbacks.current = { onMessageReceived, onSignalReceived, onSystemMessage };
-  }, [onMessageReceived, onSignalReceived, onSystemMessage]);
+    interestsRef.current = interests;
+  }, [interests]);
+
+  const modeRef = useRef(mode);
+  useEffect(() => {
+    modeRef.current = mode;
+  }, [mode]);
+
+  const abortIncomingTransfers = useCallback(() => {
+    incomingTransfersRef.current.forEach((transfer, id) => {
+      if (!transfer.failed) stableCallbacks.current.onAttachmentUpdate(id, { error: { error: 'transferInterrupted' } });
+    });
+    incomingTransfersRef.current.clear();
+  }, []);
 
   const cleanupResources = useCallback(() => {
     console.log('[ChatManager] Cleaning up socket instance and listeners.');
     cleanupSocket(socketRef.current);
     socketRef.current = null;
+    resumeTokenRef.current = null;
     
     if (typingTimeoutRef.current) {
       clearTimeout(typingTimeoutRef.current);
       typingTimeoutRef.current = null;
     }
+
+    if (readFlushTimeoutRef.current) {
+      clearTimeout(readFlushTimeoutRef.current);
+      readFlushTimeoutRef.current = null;
+    }
+    pendingReadsRef.current.clear();
+    reportedReadsRef.current.clear();
+
+    peerAckTimersRef.current.forEach(timer => clearTimeout(timer));
+    peerAckTimersRef.current.clear();
+    receivedMessageIdsRef.current.clear();
+    chatStartedAtRef.current = null;
+    peerLimiterRef.current = createPeerLimiter(peerRateLimitsRef.current);
+    peerFloodReportedRef.current = false;
+    abortIncomingTransfers();
+    transferGenerationRef.current += 1;
     
     // Reset state associated with an active connection
     setUserId(null);
     setPartnerId(null);
+    setSharedInterests([]);
+    setChatMode(null);
     setIsPartnerTyping(false);
-  }, []);
+    setIsReconnecting(false);
+    setIsPartnerReconnecting(false);
+  }, [abortIncomingTransfers]);
 
   const resetStateForNewConnection = useCallback((newStatus: ChatStatus = 'disconnected') => {
     cleanupResources();
     setStatus(newStatus);
   }, [cleanupResources]);
 
+  // Both transports land here; ids already shown are dropped
+  const deliverIncomingMessage = useCallback((id: string, text: string) => {
+    setIsPartnerTyping(false);
+    if (receivedMessageIdsRef.current.has(id)) {
+      console.log('[ChatManager] Dropping duplicate message', id);
+      return;
+    }
+    receivedMessageIdsRef.current.set(id, Date.now());
+    const message: Message = {
+      id,
+      text,
+      sender: 'stranger',
+      timestamp: Date.now(),
+    };
+    stableCallbacks.current.onMessageReceived(message);
+  }, []);
+
+  // Only the partner's own messages, and only within the window (the relay checked too; peer edits weren't)
+  const canPartnerChange = useCallback((id: string) => {
+    const receivedAt = receivedMessageIdsRef.current.get(id);
+    return receivedAt !== undefined && Date.now() - receivedAt <= editWindowMsRef.current + EDIT_WINDOW_GRACE_MS;
+  }, []);
+
+  // Peer messages only ever reach our filters, so their flags are passed on from here
+  const filterFromPeer = useCallback((text: string) => {
+    const filtered = filterPeerMessage(peerFiltersRef.current, text, chatStartedAtRef.current);
+    if (filtered.flags.length > 0) emitPeerFlag(socketRef.current, { reasons: filtered.flags, excerpt: text });
+    return filtered;
+  }, []);
+
+  const receiveEdit = useCallback((id: string, text: string, viaPeer: boolean) => {
+    if (!canPartnerChange(id)) {
+      console.warn('[ChatManager] Ignoring edit outside the window for', id);
+      return;
+    }
+    if (viaPeer) {
+      const filtered = filterFromPeer(text);
+      if (filtered.rejected) return;
+      text = filtered.text;
+    }
+    stableCallbacks.current.onMessageEdited(id, text);
+  }, [canPartnerChange, filterFromPeer]);
+
+  const receiveUnsend = useCallback((id: string) => {
+    if (!canPartnerChange(id)) {
+      console.warn('[ChatManager] Ignoring unsend outside the window for', id);
+      return;
+    }
+    incomingTransfersRef.current.delete(id);
+    stableCallbacks.current.onMessageRemoved(id);
+  }, [canPartnerChange]);
+
+  const failIncomingTransfer = useCallback((transfer: IncomingTransfer, error: ErrorCode, viaPeer: boolean) => {
+    console.warn('[ChatManager] Incoming file failed:', error);
+    transfer.failed = true;
+    transfer.chunks = [];
+    stableCallbacks.current.onAttachmentUpdate(transfer.start.id, { error: { error } });
+    if (viaPeer) peerChannelRef.current?.send({ type: 'ack', id: transfer.start.id, result: { ok: false, error } });
+  }, []);
+
+  // Both transports land here too; the file shows up as soon as it's announced
+  const receiveFileStart = useCallback((start: FileStart, viaPeer: boolean) => {
+    setIsPartnerTyping(false);
+    const transfers = incomingTransfersRef.current;
+    if (transfers.has(start.id)) {
+      // The sender is retrying: start over
+      transfers.set(start.id, { start, chunks: [] });
+      stableCallbacks.current.onAttachmentUpdate(start.id, { progress: 0, error: undefined });
+      return;
+    }
+    if (receivedMessageIdsRef.current.has(start.id)) {
+      console.log('[ChatManager] Dropping duplicate file', start.id);
+      if (viaPeer) peerChannelRef.current?.send({ type: 'ack', id: start.id, result: { ok: true } });
+      return;
+    }
+    const activeCount = [...transfers.values()].filter(transfer => !transfer.failed).length;
+    if (viaPeer && activeCount >= MAX_ACTIVE_TRANSFERS) {
+      // The relay refuses these too; over the data channel it's up to us
+      peerChannelRef.current?.send({ type: 'ack', id: start.id, result: { ok: false, error: 'tooManyTransfers' } });
+      return;
+    }
+    receivedMessageIdsRef.current.set(start.id, Date.now());
+    transfers.set(start.id, { start, chunks: [] });
+    stableCallbacks.current.onMessageReceived({
+      id: start.id,
+      text: start.name,
+      sender: 'stranger',
+      timestamp: Date.now(),
+      attachment: { name: start.name, mime: start.mime, size: start.size, progress: 0 },
+    });
+  }, []);
+
+  const receiveFileChunk = useCallback((chunk: FileChunk, viaPeer: boolean) => {
+    const transfer = incomingTransfersRef.current.get(chunk.id);
+    if (!transfer || transfer.failed) return;
+    if (!appendChunk(transfer, chunk)) {
+      failIncomingTransfer(transfer, 'transferInterrupted', viaPeer);
+      return;
+    }
+    if (transfer.chunks.length < transfer.start.chunks) {
+      stableCallbacks.current.onAttachmentUpdate(chunk.id, { progress: transfer.chunks.length / transfer.start.chunks });
+      return;
+    }
+
+    const blob = assembleTransfer(transfer);
+    if (!blob) {
+      failIncomingTransfer(transfer, 'fileNotIntact', viaPeer);
+      return;
+    }
+    incomingTransfersRef.current.delete(chunk.id);
+    stableCallbacks.current.onAttachmentUpdate(chunk.id, { progress: 1, url: URL.createObjectURL(blob) });
+    if (viaPeer) peerChannelRef.current?.send({ type: 'ack', id: chunk.id, result: { ok: true } });
+  }, [failIncomingTransfer]);
+
   const connect = useCallback(() => {
-    if (status === 'connecting' || status === 'chatting' || status === 'waiting') {
+    // Read via ref: "Next" calls connect from a timeout holding an older callback
+    const currentStatus = statusRef.current;
+    if (currentStatus === 'connecting' || currentStatus === 'chatting' || currentStatus === 'waiting') {
       console.warn('[ChatManager] Connect called while already connecting or active.');
       return;
     }
 
     console.log('[ChatManager] Attempting to connect...');
     resetStateForNewConnection('connecting');
-    stableCallbacks.current.onSystemMessage("Connecting...");
+    stableCallbacks.current.onSystemMessage('system.connecting');
 
     try {
       const socket = createSocketConnection({
@@ -88,41 +364,117 @@ export function useChatManager({
           console.log('[ChatManager] Socket connected:', socket.id);
         },
         
-        onYourId: (id) => {
+        onYourId: (id, resumeToken) => {
           console.log('[ChatManager] Received User ID:', id);
           setUserId(id);
+          resumeTokenRef.current = resumeToken;
+        },
+
+        onIceServers: (servers) => {
+          console.log('[ChatManager] Received ICE servers:', servers.length);
+          setIceServers(servers);
+        },
+        
+        onResumed: (data) => {
+          console.log('[ChatManager] Session resumed with partner:', data.partnerId);
+          setIsReconnecting(false);
+          setPartnerId(data.partnerId);
+          setSharedInterests(data.sharedInterests ?? []);
+          setChatMode(data.mode);
+          setStatus('chatting');
+          // Keep the link window running from when the chat really started
+          chatStartedAtRef.current = Date.now() - Math.max(0, data.chatElapsedMs || 0);
+          stableCallbacks.current.onSystemMessage('system.resumed');
+        },
+        
+        onResumeFailed: () => {
+          console.log('[ChatManager] Session could not be resumed');
+          setIsReconnecting(false);
+          if (statusRef.current === 'chatting') {
+            stableCallbacks.current.onSystemMessage('system.resumeFailed');
+            setPartnerId(null);
+            setSharedInterests([]);
+            setChatMode(null);
+            setIsPartnerTyping(false);
+          }
+        },
+        
+        onReconnectAttempt: (attempt) => {
+          console.log('[ChatManager] Reconnect attempt', attempt);
+        },
+        
+        onReconnectFailed: () => {
+          console.error('[ChatManager] Reconnection failed');
+          toast.error(t('toast.connectionLost'), { description: t('toast.couldNotReconnect') });
+          resetStateForNewConnection('error');
+        },
+        
+        onChatConfig: (config) => {
+          editWindowMsRef.current = config.editWindowMs;
+          setEditWindowMs(config.editWindowMs);
+          peerFiltersRef.current = createPeerFilters(config.contentFilters);
+          peerRateLimitsRef.current = config.rateLimits;
+          peerLimiterRef.current = createPeerLimiter(config.rateLimits);
         },
         
         onWaiting: () => {
           console.log('[ChatManager] Waiting for partner');
           setStatus('waiting');
-          stableCallbacks.current.onSystemMessage("Looking for someone to chat with...");
+          stableCallbacks.current.onSystemMessage('system.lookingForPartner');
         },
         
         onMatched: (data) => {
           console.log('[ChatManager] Matched with partner:', data.partnerId);
           setPartnerId(data.partnerId);
+          setSharedInterests(data.sharedInterests ?? []);
+          setChatMode(data.mode);
           setStatus('chatting');
-          stableCallbacks.current.onSystemMessage("A stranger has connected!");
+          chatStartedAtRef.current = Date.now();
+          stableCallbacks.current.onSystemMessage('system.strangerConnected');
+          if (data.sharedInterests?.length) {
+            stableCallbacks.current.onSystemMessage('system.sharedInterests', { interests: data.sharedInterests.join(', ') });
+          }
         },
         
         onMessage: (data) => {
           console.log('[ChatManager] Message received');
-          setIsPartnerTyping(false);
-          const message: Message = {
-            id: uuidv4(),
-            text: data.text,
-            sender: 'stranger',
-            timestamp: Date.now(),
-          };
-          stableCallbacks.current.onMessageReceived(message);
+          deliverIncomingMessage(data.id, data.text);
+        },
+        
+        onRead: (data) => {
+          data.ids.forEach(id => stableCallbacks.current.onMessageStatus(id, 'read'));
+        },
+        
+        onReaction: (data) => {
+          stableCallbacks.current.onReaction(data);
+        },
+
+        onEdit: (data) => {
+          receiveEdit(data.id, data.text, false);
+        },
+
+        onUnsend: (data) => {
+          receiveUnsend(data.id);
+        },
+
+        onFileStart: (raw) => {
+          const start = parseFileStart(raw);
+          if (start) receiveFileStart(start, false);
+          else console.warn('[ChatManager] Ignoring invalid file from relay.');
+        },
+
+        onFileChunk: (raw) => {
+          const chunk = parseFileChunk(raw);
+          if (chunk) receiveFileChunk(chunk, false);
         },
         
         onTyping: (data) => {
           setIsPartnerTyping(data.isTyping);
         },
         
-        onSignal: (payload) => {
+        onSignal: (raw) => {
+          const payload = parseSignal(raw);
+          if (!payload) return;
           console.log('[ChatManager] Signal received type:', payload.type);
           if (payload.sender !== userId) {
             stableCallbacks.current.onSignalReceived(payload);
@@ -130,25 +482,67 @@ export function useChatManager({
             console.warn("[ChatManager] Received signal from self, ignoring.");
           }
         },
+
+        onSignalError: ({ type, error }) => {
+          // Our own signal was malformed; the call may stall, but the chat is fine
+          console.error(`[ChatManager] Server rejected ${type ?? 'unknown'} signal:`, error);
+        },
+        
+        onPartnerReconnecting: () => {
+          console.log('[ChatManager] Partner is reconnecting');
+          setIsPartnerTyping(false);
+          setIsPartnerReconnecting(true);
+          stableCallbacks.current.onSystemMessage('system.partnerReconnecting');
+        },
+        
+        onPartnerReconnected: (data) => {
+          console.log('[ChatManager] Partner reconnected as:', data.partnerId);
+          setPartnerId(data.partnerId);
+          setIsPartnerReconnecting(false);
+          stableCallbacks.current.onSystemMessage('system.partnerBack');
+        },
         
         onPartnerDisconnected: () => {
           console.log('[ChatManager] Partner disconnected');
-          stableCallbacks.current.onSystemMessage('The stranger has disconnected.');
+          abortIncomingTransfers();
+          stableCallbacks.current.onSystemMessage('system.partnerDisconnected');
           setPartnerId(null);
+          setSharedInterests([]);
+          setChatMode(null);
           setIsPartnerTyping(false);
+          setIsPartnerReconnecting(false);
           setStatus('disconnected');
         },
         
-        onServerError: (message) => {
-          console.error('[ChatManager] Server error:', message);
-          toast.error('Server Error', { description: message });
+        onStats: publishStats,
+        
+        onRateLimited: (data) => {
+          console.warn('[ChatManager] Rate limited on event:', data.event);
+          if (data.disconnecting) {
+            toast.error(t('toast.disconnected'), { description: t('toast.floodDisconnected') });
+          } else {
+            toast.warning(t('toast.slowDown'), { description: t('toast.tooFast') });
+          }
+        },
+        
+        onServerError: (error) => {
+          console.error('[ChatManager] Server error:', error);
+          toast.error(t('toast.serverError'), { description: describeError(error) });
           resetStateForNewConnection('error');
         },
         
         onDisconnect: (reason) => {
           console.log('[ChatManager] Socket disconnected:', reason);
-          if (status !== 'idle' && status !== 'disconnected' && status !== 'error') {
-            toast.error('Connection Lost', { description: `Disconnected: ${reason}. Please reconnect.` });
+          const currentStatus = statusRef.current;
+          // socket.active means socket.io will retry; the server holds our chat for a grace period
+          if (socket.active && (currentStatus === 'chatting' || currentStatus === 'waiting')) {
+            setIsReconnecting(true);
+            setIsPartnerTyping(false);
+            stableCallbacks.current.onSystemMessage('system.connectionLost');
+            return;
+          }
+          if (currentStatus !== 'idle' && currentStatus !== 'disconnected' && currentStatus !== 'error') {
+            toast.error(t('toast.connectionLost'), { description: t('toast.disconnectedReason', { reason }) });
             resetStateForNewConnection('error');
           } else {
             cleanupResources();
@@ -158,23 +552,26 @@ export function useChatManager({
         
         onConnectError: (err) => {
           console.error('[ChatManager] Connection Error:', err.message);
-          toast.error('Connection Failed', {
-            description: `Could not connect: ${err.message}. Please try again.`
+          if (socket.active) return; // socket.io is still retrying; reconnect_failed reports the final failure
+          toast.error(t('toast.connectionFailed'), {
+            description: err.data?.error ? describeError(err.data.error) : t('toast.couldNotConnect', { message: err.message })
           });
-          
-          // if (status === 'connecting') {
-          //   resetStateForNewConnection('error');
-          // }
+          // Reached only when socket.io has given up, e.g. the server rejected the handshake
+          resetStateForNewConnection('error');
         }
+      }, {
+        interests: interestsRef.current,
+        mode: modeRef.current,
+        getResumeToken: () => resumeTokenRef.current,
       });
       
       socketRef.current = socket;
     } catch (error) {
       console.error("[ChatManager] Error creating socket instance:", error);
-      toast.error("Initialization Error", { description: "Failed to setup connection." });
+      toast.error(t('toast.initError'), { description: t('toast.initErrorDescription') });
       resetStateForNewConnection('error');
     }
-  }, [status, userId, resetStateForNewConnection]);
+  }, [status, userId, resetStateForNewConnection, deliverIncomingMessage, receiveFileStart, receiveFileChunk, abortIncomingTransfers, receiveEdit, receiveUnsend]);
 
   const disconnect = useCallback((notifyServer: boolean = true) => {
     console.log('[ChatManager] Disconnect requested.', { notifyServer });
@@ -186,43 +583,160 @@ export function useChatManager({
 
     if (notifyServer && status === 'chatting') {
       leaveChat(socketRef.current);
-      stableCallbacks.current.onSystemMessage("You have disconnected.");
+      stableCallbacks.current.onSystemMessage('system.youDisconnected');
     }
 
     setStatus('disconnected');
     cleanupResources();
   }, [status, cleanupResources, resetStateForNewConnection]);
 
-  const sendMessage = useCallback((text: string) => {
-    if (status === 'chatting') {
-      emitMessage(socketRef.current, text);
+  const block = useCallback(() => {
+    if (status !== 'chatting' || !socketRef.current) return;
+    console.log('[ChatManager] Blocking partner.');
+    emitBlock(socketRef.current);
+    stableCallbacks.current.onSystemMessage('system.blocked');
+    setStatus('disconnected');
+    cleanupResources();
+  }, [status, cleanupResources]);
+
+  const applyMessageAck = useCallback((id: string, result: MessageAck, viaPeer = false) => {
+    if (result.ok) {
+      stableCallbacks.current.onMessageStatus(id, 'delivered', { text: result.text, viaPeer });
+    } else {
+      console.warn('[ChatManager] Message not delivered:', result.error);
+      stableCallbacks.current.onMessageStatus(id, 'failed', { reason: { error: result.error, params: result.params } });
     }
-  }, [status]);
+  }, []);
+
+  const sendViaRelay = useCallback((id: string, text: string) => {
+    emitMessage(socketRef.current, { id, text }, (result) => applyMessageAck(id, result));
+  }, [applyMessageAck]);
+
+  const sendMessage = useCallback((id: string, text: string) => {
+    if (status !== 'chatting') {
+      stableCallbacks.current.onMessageStatus(id, 'failed');
+      return;
+    }
+
+    if (peerChannelRef.current?.send({ type: 'message', id, text })) {
+      // No ack from the partner in time: resend through the relay; their side drops the duplicate
+      const timer = setTimeout(() => {
+        peerAckTimersRef.current.delete(id);
+        console.warn('[ChatManager] No peer ack, falling back to relay for message', id);
+        sendViaRelay(id, text);
+      }, MESSAGE_ACK_TIMEOUT_MS);
+      peerAckTimersRef.current.set(id, timer);
+      return;
+    }
+    sendViaRelay(id, text);
+  }, [status, sendViaRelay]);
+
+  const sendFile = useCallback(async (id: string, file: File) => {
+    const problem = checkAttachment(file.type, file.size);
+    if (problem || statusRef.current !== 'chatting') {
+      applyMessageAck(id, { ok: false, ...(problem ?? { error: 'notConnectedToPartner' }) });
+      return;
+    }
+
+    const start = describeFile(id, file);
+    const generation = transferGenerationRef.current;
+    // A transfer stays on the transport it started on; the relay only forwards chunks it saw announced
+    const channel = peerChannelRef.current;
+    const sendToPeer = async (event: PeerChatEvent): Promise<MessageAck> =>
+      (await channel!.drain()) && channel!.send(event) ? { ok: true } : { ok: false, error: 'transferInterrupted' };
+
+    let result: MessageAck;
+    try {
+      result = channel ? await sendToPeer({ type: 'file-start', ...start }) : await emitFileStart(socketRef.current, start);
+      for (let index = 0; result.ok && index < start.chunks; index++) {
+        if (transferGenerationRef.current !== generation || statusRef.current !== 'chatting') {
+          result = { ok: false, error: 'transferInterrupted' };
+          break;
+        }
+        const chunk: FileChunk = { id, index, data: await readChunk(file, index) };
+        result = channel ? await sendToPeer({ type: 'file-chunk', ...chunk }) : await emitFileChunk(socketRef.current, chunk);
+        if (result.ok) stableCallbacks.current.onAttachmentUpdate(id, { progress: (index + 1) / start.chunks });
+      }
+    } catch (error) {
+      console.error('[ChatManager] Could not read file:', error);
+      result = { ok: false, error: 'fileUnreadable' };
+    }
+
+    if (!result.ok || !channel) {
+      applyMessageAck(id, result);
+      return;
+    }
+    const timer = setTimeout(() => {
+      peerAckTimersRef.current.delete(id);
+      applyMessageAck(id, { ok: false, error: 'transferTimedOut' });
+    }, FILE_ACK_TIMEOUT_MS);
+    peerAckTimersRef.current.set(id, timer);
+  }, [applyMessageAck]);
+
+  const markMessageRead = useCallback((id: string) => {
+    if (reportedReadsRef.current.has(id)) return;
+    reportedReadsRef.current.add(id);
+    pendingReadsRef.current.add(id);
+
+    if (readFlushTimeoutRef.current) return;
+    readFlushTimeoutRef.current = setTimeout(() => {
+      readFlushTimeoutRef.current = null;
+      const ids = [...pendingReadsRef.current];
+      pendingReadsRef.current.clear();
+      if (!peerChannelRef.current?.send({ type: 'read', ids })) {
+        emitReadReceipt(socketRef.current, ids);
+      }
+    }, 300);
+  }, []);
+
+  const sendReaction = useCallback((reaction: Reaction) => {
+    if (statusRef.current !== 'chatting') return;
+    if (!peerChannelRef.current?.send({ type: 'reaction', ...reaction })) {
+      emitReaction(socketRef.current, reaction);
+    }
+  }, []);
+
+  // Over the data channel the partner checks the window themselves and there is no ack
+  const editMessage = useCallback((id: string, text: string): Promise<MessageAck> => {
+    if (statusRef.current !== 'chatting') return Promise.resolve({ ok: false, error: 'notConnectedToPartner' });
+    if (peerChannelRef.current?.send({ type: 'edit', id, text })) return Promise.resolve({ ok: true });
+    return new Promise(resolve => emitEdit(socketRef.current, { id, text }, resolve));
+  }, []);
+
+  const unsendMessage = useCallback((id: string): Promise<MessageAck> => {
+    if (statusRef.current !== 'chatting') return Promise.resolve({ ok: false, error: 'notConnectedToPartner' });
+    if (peerChannelRef.current?.send({ type: 'unsend', id })) return Promise.resolve({ ok: true });
+    return new Promise(resolve => emitUnsend(socketRef.current, id, resolve));
+  }, []);
 
   const sendTyping = useCallback((isTyping: boolean) => {
-    if (status !== 'chatting' || !socketRef.current?.connected) return;
+    if (status !== 'chatting') return;
+
+    const emitTypingState = (value: boolean) => {
+      if (!peerChannelRef.current?.send({ type: 'typing', isTyping: value }) && socketRef.current?.connected) {
+        emitTyping(socketRef.current, value);
+      }
+    };
 
     if (typingTimeoutRef.current) {
       clearTimeout(typingTimeoutRef.current);
       typingTimeoutRef.current = null;
     }
 
-    emitTyping(socketRef.current, isTyping);
+    emitTypingState(isTyping);
 
     if (isTyping) {
       typingTimeoutRef.current = setTimeout(() => {
-        if (socketRef.current?.connected) {
-          emitTyping(socketRef.current, false);
-        }
+        emitTypingState(false);
         typingTimeoutRef.current = null;
       }, 2500);
     }
   }, [status]);
 
-  const sendSignal = useCallback((payload: Omit<SignalingMessage, 'sender' | 'target'>) => {
+  const sendSignal = useCallback((payload: OutgoingSignal) => {
     if (status === 'chatting') {
       console.log(`[ChatManager] Sending WebRTC signal: ${payload.type}`);
-      emitSignal(socketRef.current, payload, userId, partnerId);
+      emitSignal(socketRef.current, payload);
     } else {
       console.warn("[ChatManager] Cannot send WebRTC signal, conditions not met.", {
         connected: socketRef.current?.connected, partnerId, userId, status
@@ -230,6 +744,91 @@ export function useChatManager({
     }
   }, [status, partnerId, userId]);
 
+  const setPeerChannel = useCallback((channel: PeerChannel | null) => {
+    if (!!channel !== !!peerChannelRef.current) {
+      console.log(`[ChatManager] Chat transport: ${channel ? 'peer-to-peer' : 'socket relay'}`);
+    }
+    peerChannelRef.current = channel;
+  }, []);
+
+  const receivePeerEvent = useCallback((data: unknown) => {
+    const event = parsePeerEvent(data);
+    if (!event) {
+      console.warn('[ChatManager] Ignoring malformed peer event.');
+      return;
+    }
+
+    if (event.type !== 'ack' && !peerLimiterRef.current.check(event.type).allowed) {
+      console.warn(`[ChatManager] Partner is flooding '${event.type}' over the data channel; dropping it.`);
+      if (!peerFloodReportedRef.current) {
+        peerFloodReportedRef.current = true;
+        emitPeerFlag(socketRef.current, { reasons: [`Flooding '${event.type}' over the data channel`], excerpt: '' });
+      }
+      // Let the sender know, as the relay would
+      if (event.type === 'message' || event.type === 'file-start') {
+        peerChannelRef.current?.send({ type: 'ack', id: event.id, result: { ok: false, error: 'tooFast' } });
+      } else if (event.type === 'file-chunk') {
+        const transfer = incomingTransfersRef.current.get(event.id);
+        if (transfer && !transfer.failed) failIncomingTransfer(transfer, 'tooFast', true);
+      }
+      return;
+    }
+
+    switch (event.type) {
+      case 'message': {
+        const filtered = filterFromPeer(event.text);
+        if (filtered.rejected) {
+          peerChannelRef.current?.send({ type: 'ack', id: event.id, result: { ok: false, ...filtered.rejected } });
+          return;
+        }
+        deliverIncomingMessage(event.id, filtered.text);
+        const result: MessageAck = filtered.text !== event.text ? { ok: true, text: filtered.text } : { ok: true };
+        peerChannelRef.current?.send({ type: 'ack', id: event.id, result });
+        break;
+      }
+      case 'ack': {
+        const timer = peerAckTimersRef.current.get(event.id);
+        if (!timer) return; // Already fell back to the relay; its ack wins
+        clearTimeout(timer);
+        peerAckTimersRef.current.delete(event.id);
+        applyMessageAck(event.id, event.result, true);
+        break;
+      }
+      case 'read':
+        event.ids.forEach(id => stableCallbacks.current.onMessageStatus(id, 'read'));
+        break;
+      case 'typing':
+        setIsPartnerTyping(event.isTyping);
+        break;
+      case 'edit':
+        receiveEdit(event.id, event.text, true);
+        break;
+      case 'unsend':
+        receiveUnsend(event.id);
+        break;
+      case 'reaction':
+        stableCallbacks.current.onReaction({ messageId: event.messageId, emoji: event.emoji, active: event.active });
+        break;
+      case 'file-start':
+        receiveFileStart(event, true);
+        break;
+      case 'file-chunk':
+        receiveFileChunk(event, true);
+        break;
+    }
+  }, [applyMessageAck, receiveFileStart, receiveFileChunk, receiveEdit, receiveUnsend, filterFromPeer, failIncomingTransfer]);
+
+  // Closing the tab is a deliberate leave. Left alone, the server would only see the
+  // transport close and keep the partner waiting out the resume grace period.
+  useEffect(() => {
+    const handlePageHide = (event: PageTransitionEvent) => {
+      if (event.persisted) return; // Kept in the back/forward cache; the chat may still resume
+      socketRef.current?.disconnect();
+    };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, []);
+
   useEffect(() => {
     return () => {
       console.log('[ChatManager] Unmounting. Cleaning up socket.');
@@ -241,11 +840,25 @@ export function useChatManager({
     status,
     userId,
     partnerId,
+    sharedInterests,
+    chatMode,
     isPartnerTyping,
+    isReconnecting,
+    isPartnerReconnecting,
+    iceServers,
+    editWindowMs,
     connect,
     disconnect,
+    block,
     sendMessage,
+    sendFile,
+    markMessageRead,
+    sendReaction,
+    editMessage,
+    unsendMessage,
     sendTyping,
     sendSignal,
+    setPeerChannel,
+    receivePeerEvent,
   };
 }
\ No newline at end of file
@@ -0,0 +1,33 @@
+// hooks/useConversationHistory.ts
+
+import { useCallback, useEffect, useRef } from 'react';
+import { Message } from '@/types/chat';
+import { archiveConversation, purgeExpiredConversations } from '@/lib/chatHistory';
+
+/**
+ * Saves the conversation on screen to local history before it's cleared, and
+ * on reload/close. Also purges conversations past the retention age on mount.
+ */
+export function useConversationHistory(messages: Message[]): { archiveCurrent: () => void } {
+  const messagesRef = useRef(messages);
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  const archiveCurrent = useCallback(() => {
+    archiveConversation(messagesRef.current)
+      .catch(err => console.warn('[History] Could not save conversation:', err));
+  }, []);
+
+  useEffect(() => {
+    purgeExpiredConversations()
+      .catch(err => console.warn('[History] Could not purge old conversations:', err));
+  }, []);
+
+  useEffect(() => {
+    window.addEventListener('pagehide', archiveCurrent);
+    return () => window.removeEventListener('pagehide', archiveCurrent);
+  }, [archiveCurrent]);
+
+  return { archiveCurrent };
+}
@@ -0,0 +1,62 @@
+// hooks/useMediaDevices.ts
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  InputDeviceKind,
+  PreferredDevices,
+  getPreferredDevices,
+  listInputDevices,
+  savePreferredDevice,
+} from '@/lib/mediaDevices';
+
+interface UseMediaDevicesReturn {
+  audioInputs: MediaDeviceInfo[];
+  videoInputs: MediaDeviceInfo[];
+  selected: PreferredDevices;
+  select: (kind: InputDeviceKind, deviceId: string) => void;
+  refresh: () => void;
+}
+
+/**
+ * Available mics/cameras plus the user's remembered choice. Re-lists on
+ * `devicechange` and whenever `refreshKey` changes (e.g. once permission is
+ * granted and labels become readable).
+ */
+export function useMediaDevices(refreshKey?: unknown): UseMediaDevicesReturn {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [selected, setSelected] = useState<PreferredDevices>({});
+
+  const refresh = useCallback(() => {
+    listInputDevices()
+      .then(setDevices)
+      .catch(err => console.warn('[MediaDevices] Failed to list devices:', err));
+  }, []);
+
+  useEffect(() => {
+    setSelected(getPreferredDevices());
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, refreshKey]);
+
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices) return;
+    mediaDevices.addEventListener('devicechange', refresh);
+    return () => mediaDevices.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  const select = useCallback((kind: InputDeviceKind, deviceId: string) => {
+    savePreferredDevice(kind, deviceId);
+    setSelected(prev => ({ ...prev, [kind]: deviceId || undefined }));
+  }, []);
+
+  return {
+    audioInputs: devices.filter(device => device.kind === 'audioinput'),
+    videoInputs: devices.filter(device => device.kind === 'videoinput'),
+    selected,
+    select,
+    refresh,
+  };
+}
@@ -0,0 +1,42 @@
+// hooks/useServerStats.ts
+
+import { useEffect, useState } from 'react';
+import { ServerStats } from '@/types/chat';
+import { fetchStats, getLatestStats, publishStats, subscribeStats } from '@/lib/stats';
+
+const POLL_INTERVAL_MS = 15000;
+
+/**
+ * Live server stats. Uses socket pushes while a chat connection is open and
+ * falls back to polling the HTTP endpoint when pushes go stale.
+ */
+export function useServerStats(): ServerStats | null {
+  const [stats, setStats] = useState<ServerStats | null>(getLatestStats);
+
+  useEffect(() => {
+    const unsubscribe = subscribeStats(setStats);
+    let cancelled = false;
+
+    const poll = async () => {
+      const latest = getLatestStats();
+      if (latest && Date.now() - latest.updatedAt < POLL_INTERVAL_MS) return;
+      try {
+        const fresh = await fetchStats();
+        if (!cancelled) publishStats(fresh);
+      } catch (err) {
+        console.warn('[ServerStats] Failed to fetch stats:', err);
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      unsubscribe();
+    };
+  }, []);
+
+  return stats;
+}
@@ -1,74 +1,178 @@
 // hooks/useWebRTC.ts
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { SignalingMessage } from '@/types/chat'; // Assuming you have this type defined
+import { MediaState, OutgoingSignal, SignalingMessage } from '@/types/chat';
 import { toast } from 'sonner';
+import { InputDeviceKind, deviceConstraint, getPreferredDevices, listInputDevices } from '@/lib/mediaDevices';
+import { CallQuality, CallStats, CallStatsSnapshot, computeCallStats, rateCallQuality } from '@/lib/callStats';
+import { t } from '@/lib/i18n';
 
-// WebRTC configuration
-const ICE_SERVERS = [
+// Fallback used until the server sends its ICE list (which may include TURN)
+const DEFAULT_ICE_SERVERS: RTCIceServer[] = [
     { urls: 'stun:stun.l.google.com:19302' },
     { urls: 'stun:stun1.l.google.com:19302' },
-    // Add TURN servers here for production
 ];
 
+// ICE restart recovery: a 'disconnected' connection gets a grace period to heal on its own,
+// then (or immediately on 'failed') we restart ICE up to MAX times with exponential backoff
+const DISCONNECTED_GRACE_MS = 4000;
+const ICE_RESTART_MAX_ATTEMPTS = 3;
+const ICE_RESTART_BASE_DELAY_MS = 1000; // Doubles every attempt
+const ICE_RESTART_ATTEMPT_TIMEOUT_MS = 10000; // How long an attempt gets to reach 'connected'
+
+const ALL_MEDIA_ENABLED: MediaState = { audio: true, video: true };
+
+const STATS_POLL_INTERVAL_MS = 2000;
+
+// Bulk senders (file chunks) pause above the high mark until the buffer drains below the low one
+const DATA_CHANNEL_HIGH_WATER_BYTES = 1024 * 1024;
+const DATA_CHANNEL_LOW_WATER_BYTES = 256 * 1024;
+
 interface WebRTCHookProps {
     userId: string | null;
     partnerId: string | null;
-    sendSignal: (signal: Omit<SignalingMessage, 'sender' | 'target'>) => void; // Function to send signal via Socket
+    iceServers?: RTCIceServer[] | null; // From the signaling server; falls back to public STUN
+    sendSignal: (signal: OutgoingSignal) => void; // Function to send signal via Socket
     onStreamError?: (error: Error) => void; // Callback for media stream errors
     onCallEnded?: () => void; // Callback when the call ends (locally or remotely signaled)
+    onDataMessage?: (data: unknown) => void; // Parsed JSON received on the chat data channel (unvalidated)
 }
 
 interface WebRTCHookReturn {
     localStream: MediaStream | null;
     remoteStream: MediaStream | null;
     isWebRTCActive: boolean; // Is a WebRTC connection process active/established?
+    isRecovering: boolean; // Connection dropped and we're trying to restore it via ICE restart
+    localMediaState: MediaState; // Our mic/camera enabled flags
+    remoteMediaState: MediaState; // Partner's mic/camera enabled flags, as they last signaled
     startVideoCall: () => Promise<void>; // Function to initiate the call
     stopVideoCall: (notifyPartner?: boolean) => void; // Function to stop the call
     receivedSignal: (message: SignalingMessage) => void; // Function to process incoming signals
+    toggleAudio: () => void; // Mute/unmute the mic without ending the call
+    toggleVideo: () => void; // Turn the camera off/on without ending the call
+    switchDevice: (kind: InputDeviceKind, deviceId: string) => Promise<void>; // Hot-swap mic/camera; '' = default
+    isScreenSharing: boolean;
+    isRemoteScreenSharing: boolean; // Partner is sending their screen; show it uncropped
+    startScreenShare: () => Promise<void>;
+    stopScreenShare: () => Promise<void>;
+    callStats: CallStats | null; // Raw numbers from getStats(), refreshed while the call runs
+    callQuality: CallQuality | null;
+    isDataChannelOpen: boolean;
+    sendData: (data: object) => boolean; // false if the channel isn't open or the send failed
+    waitForDataChannelDrain: () => Promise<boolean>; // Resolves false if the channel closes first
 }
 
 export function useWebRTC({
     userId,
     partnerId,
+    iceServers,
     sendSignal,
     onStreamError = () => {},
-    onCallEnded = () => {}
+    onCallEnded = () => {},
+    onDataMessage = () => {}
 }: WebRTCHookProps): WebRTCHookReturn {
     const [localStream, setLocalStream] = useState<MediaStream | null>(null);
     const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
     const [isWebRTCActive, setIsWebRTCActive] = useState(false); // Tracks if call setup is in progress or active
+    const [isRecovering, setIsRecovering] = useState(false);
+    const [isScreenSharing, setIsScreenSharing] = useState(false);
+    const [isRemoteScreenSharing, setIsRemoteScreenSharing] = useState(false);
+    const [callStats, setCallStats] = useState<CallStats | null>(null);
+    const [isDataChannelOpen, setIsDataChannelOpen] = useState(false);
+    const [localMediaState, setLocalMediaState] = useState<MediaState>(ALL_MEDIA_ENABLED);
+    const [remoteMediaState, setRemoteMediaState] = useState<MediaState>(ALL_MEDIA_ENABLED);
 
     const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
-    // Ref to track if *this* client initiated the current connection attempt.
-    // Useful for debugging or handling glare, but not strictly necessary for basic flow.
-    const isInitiatorRef = useRef(false);
-    const pendingCandidatesRef = useRef<RTCIceCandidate[]>([]);
+    const localStreamRef = useRef<MediaStream | null>(null); // Mirrors localStream for use inside PC event handlers
+    const cameraTrackRef = useRef<MediaStreamTrack | null>(null); // Camera parked (still live) while the screen is shared
+    const dataChannelRef = useRef<RTCDataChannel | null>(null);
+    // In-flight media + peer connection setup, shared so a local start and an incoming offer don't race
+    const pcSetupRef = useRef<Promise<RTCPeerConnection | null> | null>(null);
+    const setupGenerationRef = useRef(0); // Bumped on cleanup so stale setups can tell they were cancelled
+    const pendingCandidatesRef = useRef<RTCIceCandidateInit[]>([]);
+
+    // Perfect negotiation state (see the W3C WebRTC spec's "perfect negotiation" example).
+    // On an offer collision the polite peer rolls back its own offer; the impolite peer ignores the incoming one.
+    const makingOfferRef = useRef(false);
+    const ignoreOfferRef = useRef(false);
+    const isSettingRemoteAnswerPendingRef = useRef(false);
+    // Recovery state machine: idle -> grace ('disconnected') -> restarting (attempt N) -> idle or give up
+    const recoveryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const recoveryPhaseRef = useRef<'idle' | 'grace' | 'restarting'>('idle');
+    const recoveryAttemptsRef = useRef(0);
+
+    // Both sides compare the same id pair, so exactly one of them ends up polite
+    const isPoliteRef = useRef(false);
+
+    useEffect(() => {
+        isPoliteRef.current = !!userId && !!partnerId && userId < partnerId;
+    }, [userId, partnerId]);
 
     // Use refs for callbacks passed as props to ensure stability inside other useCallback hooks
     const sendSignalRef = useRef(sendSignal);
+    const iceServersRef = useRef(iceServers);
     const onStreamErrorRef = useRef(onStreamError);
     const onCallEndedRef = useRef(onCallEnded);
+    const onDataMessageRef = useRef(onDataMessage);
 
     useEffect(() => {
         sendSignalRef.current = sendSignal;
         onStreamErrorRef.current = onStreamError;
         onCallEndedRef.current = onCallEnded;
-    }, [sendSignal, onStreamError, onCallEnded]);
+        onDataMessageRef.current = onDataMessage;
+    }, [sendSignal, onStreamError, onCallEnded, onDataMessage]);
+
+    useEffect(() => {
+        iceServersRef.current = iceServers;
+    }, [iceServers]);
+
+    const resetRecovery = useCallback(() => {
+        if (recoveryTimerRef.current) {
+            clearTimeout(recoveryTimerRef.current);
+            recoveryTimerRef.current = null;
+        }
+        recoveryPhaseRef.current = 'idle';
+        recoveryAttemptsRef.current = 0;
+        setIsRecovering(false);
+    }, []);
 
     // --- Cleanup Function ---
-    // Now depends only on the stable onCallEndedRef
+    // Reads everything through refs, so it stays stable for the hook's lifetime
     const cleanupWebRTC = useCallback((notifyEnd = true) => {
         console.log('[WebRTC] Cleaning up WebRTC resources.', { notifyEnd });
+        resetRecovery();
+        setupGenerationRef.current += 1;
+        pcSetupRef.current = null;
+
+        // Stop the parked camera track if we were sharing the screen
+        if (cameraTrackRef.current) {
+            cameraTrackRef.current.stop();
+            cameraTrackRef.current = null;
+        }
+        setIsScreenSharing(false);
+        setIsRemoteScreenSharing(false);
 
         // Stop local media tracks
-        if (localStream) {
+        if (localStreamRef.current) {
             console.log('[WebRTC] Stopping local stream tracks.');
-            localStream.getTracks().forEach(track => track.stop());
+            localStreamRef.current.getTracks().forEach(track => track.stop());
+            localStreamRef.current = null;
             setLocalStream(null); // Clear state
         }
 
         // Clear remote stream state
         setRemoteStream(null);
+        setLocalMediaState(ALL_MEDIA_ENABLED);
+        setRemoteMediaState(ALL_MEDIA_ENABLED);
+
+        // Close the data channel first so chat falls back to the socket relay immediately
+        if (dataChannelRef.current) {
+            dataChannelRef.current.onopen = null;
+            dataChannelRef.current.onclose = null;
+            dataChannelRef.current.onmessage = null;
+            dataChannelRef.current.close();
+            dataChannelRef.current = null;
+        }
+        setIsDataChannelOpen(false);
 
         // Close PeerConnection
         if (peerConnectionRef.current) {
@@ -78,13 +182,16 @@ export function useWebRTC({
             peerConnectionRef.current.onconnectionstatechange = null;
             peerConnectionRef.current.ontrack = null;
             peerConnectionRef.current.oniceconnectionstatechange = null;
+            peerConnectionRef.current.onnegotiationneeded = null;
             peerConnectionRef.current.close();
             peerConnectionRef.current = null;
         }
 
         // Reset state flags
         setIsWebRTCActive(false); // Mark connection as inactive
-        isInitiatorRef.current = false; // Reset initiator status
+        makingOfferRef.current = false;
+        ignoreOfferRef.current = false;
+        isSettingRemoteAnswerPendingRef.current = false;
         pendingCandidatesRef.current = []; // Clear any pending candidates
 
         // Notify parent component if requested
@@ -92,7 +199,7 @@ export function useWebRTC({
             console.log('[WebRTC] Notifying parent component call ended.');
             onCallEndedRef.current();
         }
-    }, [localStream]); // Now correctly depends on localStream to stop its tracks
+    }, [resetRecovery]);
 
     // --- Stop Video Call ---
     const stopVideoCall = useCallback((notifyPartner = true) => {
@@ -103,16 +210,44 @@ export function useWebRTC({
             sendSignalRef.current({ type: 'bye', payload: null });
         }
         cleanupWebRTC(true); // Always notify parent locally when stop is called
-    }, [cleanupWebRTC]); // Depends on the stable cleanupWebRTC
+    }, [userId, partnerId, cleanupWebRTC]);
+
+    // --- Mute / Camera Toggles ---
+    // Disabling a track keeps it negotiated (silence / black frames), so no renegotiation is needed
+    const toggleTrack = useCallback((kind: keyof MediaState) => {
+        const stream = localStreamRef.current;
+        if (!stream) {
+            console.warn(`[WebRTC] Cannot toggle ${kind}: no local stream.`);
+            return;
+        }
+        const tracks = kind === 'audio' ? stream.getAudioTracks() : stream.getVideoTracks();
+        const enabled = !tracks.some(track => track.enabled);
+        tracks.forEach(track => { track.enabled = enabled; });
+
+        const next: MediaState = {
+            audio: stream.getAudioTracks().some(track => track.enabled),
+            video: stream.getVideoTracks().some(track => track.enabled),
+        };
+        console.log(`[WebRTC] ${kind} ${enabled ? 'enabled' : 'disabled'}.`);
+        setLocalMediaState(next);
+        sendSignalRef.current({ type: 'media-state', payload: next });
+    }, []);
+
+    const toggleAudio = useCallback(() => toggleTrack('audio'), [toggleTrack]);
+    const toggleVideo = useCallback(() => toggleTrack('video'), [toggleTrack]);
 
     // --- Get Local Media Stream ---
     const getLocalMedia = useCallback(async (): Promise<MediaStream | null> => {
         try {
             console.log("[WebRTC] Requesting user media (video, audio)...");
-            const stream = await navigator.mediaDevices.getUserMedia({ video: true, audio: true });
+            const preferred = getPreferredDevices();
+            const stream = await navigator.mediaDevices.getUserMedia({
+                video: deviceConstraint(preferred.videoinput),
+                audio: deviceConstraint(preferred.audioinput),
+            });
             console.log("[WebRTC] User media acquired.");
+            localStreamRef.current = stream;
             setLocalStream(stream); // Update state
-            // Don't set active here anymore, moved to startVideoCall
             return stream;
         } catch (err: any) {
             console.error("[WebRTC] Error getting user media:", err);
@@ -120,32 +255,242 @@ export function useWebRTC({
             cleanupWebRTC(false); // Cleanup without double notification
             return null; // Indicate failure
         }
-    }, [cleanupWebRTC]); // Depends on cleanupWebRTC for error handling
+    }, [cleanupWebRTC]);
+
+    // --- Connection Recovery ---
+    // Runs the next ICE restart attempt, or ends the call once attempts are used up.
+    // The restart offer goes out through onnegotiationneeded like any other offer.
+    const attemptRecovery = useCallback((pc: RTCPeerConnection) => {
+        if (pc !== peerConnectionRef.current) return;
+        if (recoveryTimerRef.current) clearTimeout(recoveryTimerRef.current);
+
+        if (recoveryAttemptsRef.current >= ICE_RESTART_MAX_ATTEMPTS) {
+            console.error(`[WebRTC] Recovery failed after ${ICE_RESTART_MAX_ATTEMPTS} ICE restarts. Ending call.`);
+            toast.error(t('toast.videoLost'), { description: t('toast.videoLostDescription') });
+            stopVideoCall(true); // Tell the partner so they stop retrying too
+            return;
+        }
 
-    // --- Create Peer Connection ---
-    const createPeerConnection = useCallback(async (stream: MediaStream): Promise<RTCPeerConnection | null> => {
-        // Cleanup existing connection *before* creating a new one
-        if (peerConnectionRef.current) {
-            console.warn("[WebRTC] Existing peer connection found during creation. Cleaning up first.");
-            cleanupWebRTC(false); // Don't notify end on implicit cleanup
+        recoveryPhaseRef.current = 'restarting';
+        recoveryAttemptsRef.current += 1;
+        const attempt = recoveryAttemptsRef.current;
+        const delay = ICE_RESTART_BASE_DELAY_MS * 2 ** (attempt - 1);
+        setIsRecovering(true);
+        console.log(`[WebRTC] Scheduling ICE restart ${attempt}/${ICE_RESTART_MAX_ATTEMPTS} in ${delay}ms.`);
+
+        recoveryTimerRef.current = setTimeout(() => {
+            if (pc !== peerConnectionRef.current) return;
+            console.log(`[WebRTC] Restarting ICE (attempt ${attempt}).`);
+            pc.restartIce();
+            // If we're not back to 'connected' in time, try again
+            recoveryTimerRef.current = setTimeout(() => attemptRecovery(pc), ICE_RESTART_ATTEMPT_TIMEOUT_MS);
+        }, delay);
+    }, [stopVideoCall]);
+
+    const handleConnectionStateChange = useCallback((pc: RTCPeerConnection) => {
+        switch (pc.connectionState) {
+            case 'connected':
+                if (recoveryPhaseRef.current !== 'idle') {
+                    console.log("[WebRTC] Connection recovered.");
+                }
+                resetRecovery();
+                break;
+            case 'disconnected':
+                // Often transient (network blip, Wi-Fi handover); give it a moment before restarting ICE
+                if (recoveryPhaseRef.current !== 'idle') break;
+                recoveryPhaseRef.current = 'grace';
+                setIsRecovering(true);
+                recoveryTimerRef.current = setTimeout(() => attemptRecovery(pc), DISCONNECTED_GRACE_MS);
+                break;
+            case 'failed':
+                // A restart already in flight has its own timeout; otherwise start one now
+                if (recoveryPhaseRef.current !== 'restarting') attemptRecovery(pc);
+                break;
         }
+    }, [attemptRecovery, resetRecovery]);
+
+    // --- Switch Input Device ---
+    // Swaps the track in place with replaceTrack, so the partner keeps receiving without renegotiation
+    const switchDevice = useCallback(async (kind: InputDeviceKind, deviceId: string) => {
+        const stream = localStreamRef.current;
+        if (!stream) return; // Not in a call; getLocalMedia picks up the saved preference next time
 
+        const trackKind = kind === 'audioinput' ? 'audio' : 'video';
+        const oldTrack = stream.getTracks().find(track => track.kind === trackKind);
         try {
-            console.log("[WebRTC] Creating new Peer Connection with ICE servers:", ICE_SERVERS);
-            const pc = new RTCPeerConnection({ iceServers: ICE_SERVERS });
+            console.log(`[WebRTC] Switching ${trackKind} input to ${deviceId || 'default'}...`);
+            const constraint = deviceId ? { deviceId: { exact: deviceId } } : true;
+            const fresh = await navigator.mediaDevices.getUserMedia({ [trackKind]: constraint });
+            const newTrack = fresh.getTracks()[0];
+            if (localStreamRef.current !== stream) {
+                // Call ended or another switch finished first
+                newTrack.stop();
+                return;
+            }
+            if (trackKind === 'video' && cameraTrackRef.current) {
+                // Screen is being shared: swap the parked camera, it goes live again when sharing stops
+                newTrack.enabled = cameraTrackRef.current.enabled;
+                cameraTrackRef.current.stop();
+                cameraTrackRef.current = newTrack;
+                console.log("[WebRTC] Camera switched while screen sharing.");
+                return;
+            }
+            if (oldTrack) newTrack.enabled = oldTrack.enabled; // Keep mute / camera-off state
+
+            const sender = peerConnectionRef.current?.getSenders()
+                .find(s => s.track === oldTrack || s.track?.kind === trackKind);
+            if (sender) await sender.replaceTrack(newTrack);
+
+            const nextStream = new MediaStream([...stream.getTracks().filter(track => track !== oldTrack), newTrack]);
+            oldTrack?.stop();
+            localStreamRef.current = nextStream;
+            setLocalStream(nextStream);
+            console.log(`[WebRTC] ${trackKind} input switched.`);
+        } catch (err: any) {
+            console.error(`[WebRTC] Error switching ${trackKind} input:`, err);
+            toast.error(t('toast.switchDeviceFailed'), { description: err.message });
+        }
+    }, []);
+
+    // --- Screen Sharing ---
+    // Swaps the outgoing video track for the screen capture and back, with no renegotiation
+    const stopScreenShare = useCallback(async () => {
+        const cameraTrack = cameraTrackRef.current;
+        const stream = localStreamRef.current;
+        if (!cameraTrack || !stream) return;
+        cameraTrackRef.current = null;
+
+        const screenTrack = stream.getVideoTracks()[0];
+        const sender = peerConnectionRef.current?.getSenders()
+            .find(s => s.track === screenTrack || s.track?.kind === 'video');
+        try {
+            if (sender) await sender.replaceTrack(cameraTrack);
+        } catch (err) {
+            console.error("[WebRTC] Error restoring camera track:", err);
+        }
+        if (screenTrack) {
+            screenTrack.onended = null;
+            screenTrack.stop();
+        }
+
+        const nextStream = new MediaStream([...stream.getAudioTracks(), cameraTrack]);
+        localStreamRef.current = nextStream;
+        setLocalStream(nextStream);
+        setIsScreenSharing(false);
+        sendSignalRef.current({ type: 'screen-share', payload: { active: false } });
+        console.log("[WebRTC] Screen sharing stopped; camera restored.");
+    }, []);
+
+    const startScreenShare = useCallback(async () => {
+        const stream = localStreamRef.current;
+        const pc = peerConnectionRef.current;
+        if (!stream || !pc || cameraTrackRef.current) return;
+
+        const cameraTrack = stream.getVideoTracks()[0];
+        const sender = pc.getSenders().find(s => s.track === cameraTrack);
+        if (!cameraTrack || !sender) {
+            console.warn("[WebRTC] No outgoing video track to replace with the screen.");
+            return;
+        }
+        if (!navigator.mediaDevices?.getDisplayMedia) {
+            toast.error(t('toast.screenShareUnsupported'));
+            return;
+        }
+
+        try {
+            console.log("[WebRTC] Requesting display media...");
+            const display = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+            const screenTrack = display.getVideoTracks()[0];
+            if (localStreamRef.current !== stream || peerConnectionRef.current !== pc) {
+                screenTrack.stop(); // Call ended while the picker was open
+                return;
+            }
+
+            await sender.replaceTrack(screenTrack);
+            cameraTrackRef.current = cameraTrack;
+            // The browser's own "Stop sharing" button ends the track
+            screenTrack.onended = () => {
+                console.log("[WebRTC] Screen capture ended by the browser.");
+                stopScreenShare();
+            };
+
+            const nextStream = new MediaStream([...stream.getAudioTracks(), screenTrack]);
+            localStreamRef.current = nextStream;
+            setLocalStream(nextStream);
+            setIsScreenSharing(true);
+            sendSignalRef.current({ type: 'screen-share', payload: { active: true } });
+            console.log("[WebRTC] Screen sharing started.");
+        } catch (err: any) {
+            if (err?.name === 'NotAllowedError') {
+                console.log("[WebRTC] Screen share cancelled by user.");
+                return;
+            }
+            console.error("[WebRTC] Error starting screen share:", err);
+            toast.error(t('toast.screenShareFailed'), { description: err.message });
+        }
+    }, [stopScreenShare]);
+
+    // If the mic or camera in use is unplugged mid-call, fall back to the default device
+    useEffect(() => {
+        const mediaDevices = navigator.mediaDevices;
+        if (!mediaDevices || !localStream) return;
+
+        const handleDeviceChange = async () => {
+            const stream = localStreamRef.current;
+            if (!stream) return;
+            const available = new Set((await listInputDevices()).map(device => device.deviceId));
+            // While screen sharing, check the parked camera rather than the screen track
+            const inputTracks = [...stream.getAudioTracks(), cameraTrackRef.current ?? stream.getVideoTracks()[0]];
+            for (const track of inputTracks.filter(Boolean)) {
+                const deviceId = track.getSettings().deviceId;
+                if (track.readyState === 'ended' || (deviceId && !available.has(deviceId))) {
+                    console.warn(`[WebRTC] ${track.kind} device disappeared. Switching to default.`);
+                    await switchDevice(track.kind === 'audio' ? 'audioinput' : 'videoinput', '');
+                }
+            }
+        };
+
+        mediaDevices.addEventListener('devicechange', handleDeviceChange);
+        return () => mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+    }, [localStream, switchDevice]);
+
+    // Sends whatever we just set as the local description as the matching signal type
+    const sendLocalDescription = useCallback((pc: RTCPeerConnection) => {
+        const description = pc.localDescription;
+        if (description?.type === 'offer') {
+            sendSignalRef.current({ type: 'video-offer', payload: description.toJSON() });
+            console.log("[WebRTC] Offer sent.");
+        } else if (description?.type === 'answer') {
+            sendSignalRef.current({ type: 'video-answer', payload: description.toJSON() });
+            console.log("[WebRTC] Answer sent.");
+        }
+    }, []);
+
+    // --- Create Peer Connection ---
+    const createPeerConnection = useCallback((stream: MediaStream): RTCPeerConnection | null => {
+        try {
+            const servers = iceServersRef.current?.length ? iceServersRef.current : DEFAULT_ICE_SERVERS;
+            // Don't log TURN credentials
+            console.log("[WebRTC] Creating new Peer Connection with ICE servers:", servers.map(server => server.urls));
+            const pc = new RTCPeerConnection({ iceServers: servers });
             peerConnectionRef.current = pc;
     
-            // Add local tracks
-            stream.getTracks().forEach(track => {
+            // --- Event Handlers for the Peer Connection ---
+
+            // Every offer, including the first one and any renegotiation after a track
+            // is added mid-call, goes out from here
+            pc.onnegotiationneeded = async () => {
                 try {
-                    pc.addTrack(track, stream);
-                    console.log(`[WebRTC] Track added: ${track.kind}`);
+                    makingOfferRef.current = true;
+                    console.log("[WebRTC] Negotiation needed, creating offer...");
+                    await pc.setLocalDescription();
+                    sendLocalDescription(pc);
                 } catch (error) {
-                     console.error(`[WebRTC] Error adding track ${track.kind}:`, error);
+                    console.error("[WebRTC] Error during negotiation:", error);
+                } finally {
+                    makingOfferRef.current = false;
                 }
-            });
-    
-            // --- Event Handlers for the Peer Connection ---
+            };
     
             // Handle ICE Candidates
             pc.onicecandidate = (event) => {
@@ -153,7 +498,7 @@ export function useWebRTC({
                     console.log("[WebRTC] Sending ICE candidate:", event.candidate.type, event.candidate.sdpMLineIndex);
                     sendSignalRef.current({
                         type: 'ice-candidate',
-                        payload: event.candidate
+                        payload: event.candidate.toJSON()
                     });
                 } else if (!event.candidate) {
                      console.log("[WebRTC] All local ICE candidates sent.");
@@ -171,19 +516,17 @@ export function useWebRTC({
                         setIsWebRTCActive(true); // Ensure it's marked active
                         break;
                     case 'disconnected':
-                        console.warn("[WebRTC] Peers disconnected. Attempting to reconnect?");
-                        // Connection lost, may recover
+                        console.warn("[WebRTC] Peers disconnected. Waiting to see if it recovers.");
                         break;
                     case 'failed':
-                        console.error("[WebRTC] Peer connection failed.");
-                        // Connection failed irrecoverably
-                        stopVideoCall(false); // Cleanup and notify parent (don't notify partner)
+                        console.error("[WebRTC] Peer connection failed. Trying ICE restart.");
                         break;
                     case 'closed':
                         console.log("[WebRTC] Peer connection closed.");
                         // Connection closed, likely via cleanupWebRTC
                         break;
                 }
+                handleConnectionStateChange(pc);
             };
     
             // Handle Incoming Tracks
@@ -205,24 +548,95 @@ export function useWebRTC({
              // Handle ICE Connection State (more granular than connectionstatechange)
              pc.oniceconnectionstatechange = () => {
                  console.log("[WebRTC] ICE Connection State:", pc.iceConnectionState);
-                 if (pc.iceConnectionState === 'failed') {
-                      console.error("[WebRTC] ICE connection failed. Consider ICE restart.");
-                      // Optional: Implement ICE restart logic here if needed
-                      // pc.restartIce();
-                 }
              };
+
+            // Chat data channel. Pre-negotiated with a fixed id, so both sides create it the
+            // same way and there is no ondatachannel race during offer collisions.
+            const channel = pc.createDataChannel('chat', { negotiated: true, id: 0, ordered: true });
+            dataChannelRef.current = channel;
+            channel.bufferedAmountLowThreshold = DATA_CHANNEL_LOW_WATER_BYTES;
+            channel.onopen = () => {
+                console.log("[WebRTC] Chat data channel open.");
+                setIsDataChannelOpen(true);
+            };
+            channel.onclose = () => {
+                console.log("[WebRTC] Chat data channel closed.");
+                setIsDataChannelOpen(false);
+            };
+            channel.onmessage = (event) => {
+                if (typeof event.data !== 'string') return;
+                try {
+                    onDataMessageRef.current(JSON.parse(event.data));
+                } catch {
+                    console.warn("[WebRTC] Ignoring non-JSON data channel message.");
+                }
+            };
+
+            // Add local tracks last; this is what triggers negotiationneeded
+            stream.getTracks().forEach(track => {
+                try {
+                    pc.addTrack(track, stream);
+                    console.log(`[WebRTC] Track added: ${track.kind}`);
+                } catch (error) {
+                     console.error(`[WebRTC] Error adding track ${track.kind}:`, error);
+                }
+            });
     
             return pc;
         } catch (error) {
             console.error("[WebRTC] Error creating peer connection:", error);
             return null;
         }
-    }, [userId, partnerId, cleanupWebRTC, stopVideoCall]); // Dependencies
+    }, [userId, partnerId, handleConnectionStateChange, sendLocalDescription]);
+
+    // --- Get or Create Peer Connection ---
+    // Returns the existing connection, joins a setup already in progress, or starts a new one
+    const ensurePeerConnection = useCallback((): Promise<RTCPeerConnection | null> => {
+        if (peerConnectionRef.current) return Promise.resolve(peerConnectionRef.current);
+        if (pcSetupRef.current) return pcSetupRef.current;
+
+        const generation = setupGenerationRef.current;
+        const setup = (async () => {
+            const stream = localStreamRef.current ?? await getLocalMedia();
+            if (!stream) return null;
+            if (generation !== setupGenerationRef.current) {
+                // The call was torn down while we were waiting for the camera
+                console.log("[WebRTC] Setup cancelled; releasing media acquired in the meantime.");
+                stream.getTracks().forEach(track => track.stop());
+                if (localStreamRef.current === stream) {
+                    localStreamRef.current = null;
+                    setLocalStream(null);
+                }
+                return null;
+            }
+            return createPeerConnection(stream);
+        })();
+        pcSetupRef.current = setup;
+        setup.finally(() => {
+            if (pcSetupRef.current === setup) pcSetupRef.current = null;
+        });
+        return setup;
+    }, [getLocalMedia, createPeerConnection]);
+
+    const flushPendingCandidates = useCallback(async (pc: RTCPeerConnection) => {
+        if (pendingCandidatesRef.current.length === 0) return;
+        const candidates = pendingCandidatesRef.current;
+        pendingCandidatesRef.current = [];
+        console.log(`[WebRTC] Processing ${candidates.length} pending candidates...`);
+        for (const candidate of candidates) {
+            try {
+                await pc.addIceCandidate(candidate);
+            } catch (error) {
+                console.warn("[WebRTC] Failed to add queued ICE candidate:", error);
+            }
+        }
+    }, []);
 
     // Flag to prevent multiple simultaneous call starts
     const isStartingCallRef = useRef(false);
 
-    // --- Start Video Call (Initiator) ---
+    // --- Start Video Call ---
+    // Sets up media and the peer connection; the offer itself is sent from onnegotiationneeded
     const startVideoCall = useCallback(async () => {
         if (isStartingCallRef.current) {
             console.log("[WebRTC] Call start already in progress. Ignoring duplicate request.");
@@ -231,192 +645,211 @@ export function useWebRTC({
         
         if (!userId || !partnerId) {
             console.error("[WebRTC] Cannot start call: Missing userId or partnerId.");
-            toast.error("Cannot Start Video", { description: "User or partner ID missing." });
+            toast.error(t('toast.videoCannotStart'), { description: t('toast.videoMissingIds') });
             return;
         }
         if (isWebRTCActive) {
             console.warn("[WebRTC] startVideoCall called while already active or starting.");
             return;
         }
-        if (peerConnectionRef.current) {
-            console.warn("[WebRTC] startVideoCall called while a peer connection already exists. Potential state issue.");
-            // Optionally clean up first? Or just proceed? Let's proceed cautiously.
-        }
 
         try {
             // Set flag to prevent duplicate starts
             isStartingCallRef.current = true;
             
             console.log("[WebRTC] === Initiating Video Call ===");
-            isInitiatorRef.current = true;
             
             // Set active state BEFORE starting the async process
             // This helps prevent unmounts during the async operations
             setIsWebRTCActive(true);
     
-            const stream = await getLocalMedia();
-            if (!stream) {
-                setIsWebRTCActive(false); // Reset if media acquisition failed
-                return; // Error handled in getLocalMedia
-            }
-    
-            const pc = await createPeerConnection(stream);
+            const pc = await ensurePeerConnection();
             if (!pc) {
-                setIsWebRTCActive(false); // Reset if peer connection creation failed
-                return; // Error creating PC
+                setIsWebRTCActive(false); // Reset if media or peer connection setup failed
+                return;
             }
-    
-            console.log("[WebRTC] Creating offer...");
-            const offer = await pc.createOffer();
-            await pc.setLocalDescription(offer);
-            console.log("[WebRTC] Local description (offer) set.");
-    
-            // Send the offer to the partner
-            sendSignalRef.current({ 
-                type: 'video-offer', 
-                payload: pc.localDescription 
-            });
-            console.log("[WebRTC] Offer sent.");
         } catch (err: any) {
-            console.error("[WebRTC] Error creating/sending offer:", err);
+            console.error("[WebRTC] Error starting call:", err);
             onStreamErrorRef.current(err);
             stopVideoCall(false); // Cleanup on failure
         } finally {
             // Reset flag when done (success or error)
             isStartingCallRef.current = false;
         }
-    }, [userId, partnerId, isWebRTCActive, getLocalMedia, createPeerConnection, stopVideoCall]); // Dependencies
+    }, [userId, partnerId, isWebRTCActive, ensurePeerConnection, stopVideoCall]);
 
     // --- Handle Received Signaling Messages ---
     const receivedSignal = useCallback(async (message: SignalingMessage) => {
         // Ignore signals if not intended for us, or if basic IDs are missing
         if (message.sender === userId || !partnerId || !userId) {
-             // console.log("[WebRTC] Ignoring signal from self or missing IDs.");
              return;
         }
 
         console.log("[WebRTC] <<< Received Signal:", message.type, "from:", message.sender);
 
         try {
-            // Get or create PeerConnection. Crucial for handling offer before local start.
-            let pc = peerConnectionRef.current;
-            let stream = localStream; // Use existing stream if available
-
-            // Ensure we have local media and PC when handling offer/answer
-            if ((message.type === 'video-offer' || message.type === 'video-answer') && !pc) {
-                 console.log("[WebRTC] PC not found for offer/answer, need to create.");
-                 if (!stream) {
-                     console.log("[WebRTC] Local stream needed for offer/answer handling.");
-                     stream = await getLocalMedia(); // Get media first
-                     if (!stream) throw new Error("Failed to get local media to handle signal.");
-                 }
-                 pc = await createPeerConnection(stream); // Create PC with the stream
-                 if (!pc) throw new Error("Failed to create peer connection to handle signal.");
-            } else if (!pc && message.type !== 'ice-candidate') {
-                 // If pc is still null here for non-candidate messages, something is wrong
-                 console.error("[WebRTC] PeerConnection is null while processing signal:", message.type);
-                 throw new Error(`PeerConnection not available for signal type ${message.type}`);
-            }
-
-
-            // Process different signal types
             switch (message.type) {
                 case 'video-offer':
-                    if (!message.payload) throw new Error("Offer signal missing payload data.");
-                    if (!pc) throw new Error("PeerConnection not ready for offer."); // Should be created above
-
-                    console.log("[WebRTC] Processing received offer...");
-                    isInitiatorRef.current = false; // We are the receiver now
-
-                    // Set remote description (the offer)
-                    await pc.setRemoteDescription(new RTCSessionDescription(message.payload));
-                    console.log("[WebRTC] Remote description (offer) set.");
-
-                    // Create answer
-                    console.log("[WebRTC] Creating answer...");
-                    const answer = await pc.createAnswer();
-                    await pc.setLocalDescription(answer);
-                    console.log("[WebRTC] Local description (answer) set.");
-
-                    // Send the answer back
-                    sendSignalRef.current({ 
-                        type: 'video-answer', 
-                        payload: pc.localDescription 
-                    });
-                    console.log("[WebRTC] Answer sent.");
+                case 'video-answer': {
+                    const description = message.payload;
+                    // An offer is how the partner starts a call, so set up our side on demand;
+                    // an answer without a connection is stale
+                    const pc = description.type === 'offer'
+                        ? await ensurePeerConnection()
+                        : peerConnectionRef.current;
+                    if (!pc) {
+                        // Media errors were already reported by getLocalMedia; a cancelled setup needs nothing more
+                        console.warn(`[WebRTC] No peer connection for ${description.type}. Ignoring.`);
+                        return;
+                    }
 
-                    // Mark as active now that negotiation is underway
-                    setIsWebRTCActive(true);
+                    const readyForOffer = !makingOfferRef.current
+                        && (pc.signalingState === 'stable' || isSettingRemoteAnswerPendingRef.current);
+                    const offerCollision = description.type === 'offer' && !readyForOffer;
 
-                    // Process any queued candidates *after* setting descriptions
-                     if (pendingCandidatesRef.current.length > 0) {
-                        console.log(`[WebRTC] Processing ${pendingCandidatesRef.current.length} pending candidates...`);
-                        await Promise.all(pendingCandidatesRef.current.map(candidate => pc!.addIceCandidate(candidate)));
-                        console.log("[WebRTC] Pending candidates processed.");
-                        pendingCandidatesRef.current = [];
+                    ignoreOfferRef.current = !isPoliteRef.current && offerCollision;
+                    if (ignoreOfferRef.current) {
+                        console.log("[WebRTC] Offer collision; we're impolite, ignoring the partner's offer.");
+                        return;
                     }
-                    break;
 
-                case 'video-answer':
-                    if (!message.payload) throw new Error("Answer signal missing payload data.");
-                    if (!pc) throw new Error("PeerConnection not ready for answer.");
+                    if (description.type === 'answer' && pc.signalingState !== 'have-local-offer') {
+                        // Answer to an offer we already rolled back
+                        console.warn(`[WebRTC] Received answer in state ${pc.signalingState}. Ignoring.`);
+                        return;
+                    }
+
+                    if (offerCollision) {
+                        console.log("[WebRTC] Offer collision; we're polite, rolling back our offer.");
+                        await pc.setLocalDescription({ type: 'rollback' });
+                    }
 
-                    console.log("[WebRTC] Processing received answer...");
-                    if (pc.signalingState !== 'have-local-offer') {
-                         console.warn(`[WebRTC] Received answer in unexpected state: ${pc.signalingState}. Ignoring?`);
-                         // return; // Or handle as appropriate
+                    isSettingRemoteAnswerPendingRef.current = description.type === 'answer';
+                    try {
+                        await pc.setRemoteDescription(description);
+                    } finally {
+                        isSettingRemoteAnswerPendingRef.current = false;
                     }
+                    console.log(`[WebRTC] Remote description (${description.type}) set.`);
 
-                    // Set remote description (the answer)
-                    await pc.setRemoteDescription(new RTCSessionDescription(message.payload));
-                    console.log("[WebRTC] Remote description (answer) set.");
+                    if (description.type === 'offer') {
+                        await pc.setLocalDescription();
+                        sendLocalDescription(pc);
+                    }
 
-                    // Mark as active now that negotiation is complete from our side
+                    // Mark as active now that negotiation is underway
                     setIsWebRTCActive(true);
 
-                     // Process any queued candidates *after* setting descriptions
-                     if (pendingCandidatesRef.current.length > 0) {
-                         console.log(`[WebRTC] Processing ${pendingCandidatesRef.current.length} pending candidates...`);
-                         await Promise.all(pendingCandidatesRef.current.map(candidate => pc!.addIceCandidate(candidate)));
-                         console.log("[WebRTC] Pending candidates processed.");
-                         pendingCandidatesRef.current = [];
-                     }
+                    // Process any queued candidates *after* setting descriptions
+                    await flushPendingCandidates(pc);
                     break;
+                }
 
-                case 'ice-candidate':
-                    if (!message.payload) throw new Error("ICE signal missing payload data.");
-                    if (!pc) {
-                        console.warn("[WebRTC] Received ICE candidate before PeerConnection ready. Queuing.");
-                        pendingCandidatesRef.current.push(new RTCIceCandidate(message.payload));
-                        return; // Wait for PC creation
+                case 'ice-candidate': {
+                    const pc = peerConnectionRef.current;
+                    if (!pc || !pc.remoteDescription) {
+                        console.log("[WebRTC] Peer connection or remote description not ready. Queuing ICE candidate.");
+                        pendingCandidatesRef.current.push(message.payload);
+                        return;
                     }
-                    if (!pc.remoteDescription) {
-                        console.log("[WebRTC] Remote description not set yet. Queuing ICE candidate.");
-                        pendingCandidatesRef.current.push(new RTCIceCandidate(message.payload));
-                    } else {
-                        console.log("[WebRTC] Adding received ICE candidate.");
-                        await pc.addIceCandidate(new RTCIceCandidate(message.payload));
-                        console.log("[WebRTC] ICE candidate added.");
+                    try {
+                        await pc.addIceCandidate(message.payload);
+                    } catch (error) {
+                        // Candidates for an offer we ignored are expected to fail
+                        if (!ignoreOfferRef.current) throw error;
                     }
                     break;
+                }
+
+                case 'media-state':
+                    console.log("[WebRTC] Partner media state:", message.payload);
+                    setRemoteMediaState(message.payload);
+                    break;
+
+                case 'screen-share':
+                    console.log("[WebRTC] Partner screen sharing:", message.payload.active);
+                    setIsRemoteScreenSharing(message.payload.active);
+                    break;
 
                 case 'bye':
                     console.log("[WebRTC] Received 'bye' signal from partner.");
-                    toast.info("Partner ended the video call.");
+                    toast.info(t('toast.partnerEndedVideo'));
                     stopVideoCall(false); // Stop locally, don't notify partner back
                     break;
 
                 default:
-                    console.warn("[WebRTC] Unknown signal type received:", message.type);
+                    console.warn("[WebRTC] Unknown signal type received:", (message as { type: string }).type);
             }
         } catch (error: any) {
             console.error("[WebRTC] Error processing signal:", message.type, error);
-            toast.error("WebRTC Signaling Error", { description: `Failed to process signal (${message.type}): ${error.message}` });
+            toast.error(t('toast.signalingError'), { description: t('toast.signalingErrorDescription', { type: message.type, message: error.message }) });
             // Consider a cleanup on critical errors
             stopVideoCall(false); // Cleanup on error
         }
-    }, [userId, partnerId, localStream, createPeerConnection, getLocalMedia, stopVideoCall]); // Key dependencies
+    }, [userId, partnerId, ensurePeerConnection, sendLocalDescription, flushPendingCandidates, stopVideoCall]);
+
+
+    // --- Data Channel ---
+    const sendData = useCallback((data: object): boolean => {
+        const channel = dataChannelRef.current;
+        if (!channel || channel.readyState !== 'open') return false;
+        try {
+            channel.send(JSON.stringify(data));
+            return true;
+        } catch (error) {
+            console.warn("[WebRTC] Data channel send failed:", error);
+            return false;
+        }
+    }, []);
+
+    const waitForDataChannelDrain = useCallback((): Promise<boolean> => {
+        const channel = dataChannelRef.current;
+        if (!channel || channel.readyState !== 'open') return Promise.resolve(false);
+        if (channel.bufferedAmount <= DATA_CHANNEL_HIGH_WATER_BYTES) return Promise.resolve(true);
+        return new Promise(resolve => {
+            const finish = (open: boolean) => {
+                channel.removeEventListener('bufferedamountlow', onLow);
+                channel.removeEventListener('close', onClose);
+                resolve(open);
+            };
+            const onLow = () => finish(true);
+            const onClose = () => finish(false);
+            channel.addEventListener('bufferedamountlow', onLow);
+            channel.addEventListener('close', onClose);
+        });
+    }, []);
+
+    // --- Connection Quality ---
+    useEffect(() => {
+        if (!isWebRTCActive) {
+            setCallStats(null);
+            return;
+        }
+
+        let previous: CallStatsSnapshot | null = null;
+        let cancelled = false;
+        const poll = async () => {
+            const pc = peerConnectionRef.current;
+            if (!pc || pc.connectionState !== 'connected') return;
+            try {
+                const report = await pc.getStats();
+                if (cancelled) return;
+                const { stats, snapshot } = computeCallStats(report, previous);
+                previous = snapshot;
+                setCallStats(stats);
+            } catch (error) {
+                console.warn("[WebRTC] Failed to read connection stats:", error);
+            }
+        };
+
+        const interval = setInterval(poll, STATS_POLL_INTERVAL_MS);
+        return () => {
+            cancelled = true;
+            clearInterval(interval);
+        };
+    }, [isWebRTCActive]);
 
+    const callQuality = callStats ? rateCallQuality(callStats) : null;
 
     // --- Effect for Component Unmount Cleanup ---
     useEffect(() => {
@@ -424,15 +857,30 @@ export function useWebRTC({
             console.log("[WebRTC] Hook unmounting. Cleaning up WebRTC.");
             cleanupWebRTC(false); // Cleanup without notifying parent (unmount scenario)
         };
-    }, [cleanupWebRTC]); // Only depends on the stable cleanupWebRTC callback
+    }, [cleanupWebRTC]); // cleanupWebRTC is stable, so this only runs on unmount
 
     // Return the state and functions needed by the parent component
     return {
         localStream,
         remoteStream,
         isWebRTCActive,
+        isRecovering,
+        localMediaState,
+        remoteMediaState,
         startVideoCall,
         stopVideoCall,
         receivedSignal, // Provide the handler for ChatManager to call
+        toggleAudio,
+        toggleVideo,
+        switchDevice,
+        isScreenSharing,
+        isRemoteScreenSharing,
+        startScreenShare,
+        stopScreenShare,
+        callStats,
+        callQuality,
+        isDataChannelOpen,
+        sendData,
+        waitForDataChannelDrain,
     };
 }
\ No newline at end of file
@@ -0,0 +1,92 @@
+import { AckError, FileChunk, FileStart } from '@/types/chat';
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  ATTACHMENT_CHUNK_BYTES,
+  MAX_ACTIVE_TRANSFERS,
+  MAX_ATTACHMENT_BYTES,
+  checkAttachment as checkSharedAttachment,
+  chunkCount,
+  validateFileChunk,
+  validateFileStart,
+} from '../../backend/attachments';
+
+export { ALLOWED_ATTACHMENT_TYPES, MAX_ACTIVE_TRANSFERS, MAX_ATTACHMENT_BYTES };
+
+/**
+ * Checks a file against the type and size limits before sending. Returns the error, or null when allowed.
+ */
+export function checkAttachment(mime: string, size: number): AckError | null {
+  // The shared module only returns errors.* codes
+  return checkSharedAttachment(mime, size) as AckError | null;
+}
+
+// A file being received: chunks are kept until the last one arrives
+export interface IncomingTransfer {
+  start: FileStart;
+  chunks: Uint8Array[];
+  failed?: boolean;
+}
+
+/**
+ * Validates a file-start from the relay or the data channel. Returns null for anything
+ * malformed or over the limits, so the receiving end enforces them too.
+ */
+export function parseFileStart(value: unknown): FileStart | null {
+  const result = validateFileStart(value);
+  return result.ok && result.value ? result.value : null;
+}
+
+export function parseFileChunk(value: unknown): FileChunk | null {
+  const result = validateFileChunk(value);
+  return result.ok && result.value ? result.value : null;
+}
+
+export function describeFile(id: string, file: File): FileStart {
+  return { id, name: file.name, mime: file.type, size: file.size, chunks: chunkCount(file.size) };
+}
+
+/**
+ * Reads chunk `index` of a file as base64.
+ */
+export async function readChunk(file: Blob, index: number): Promise<string> {
+  const start = index * ATTACHMENT_CHUNK_BYTES;
+  const bytes = new Uint8Array(await file.slice(start, start + ATTACHMENT_CHUNK_BYTES).arrayBuffer());
+  let binary = '';
+  // Build the string in slices; spreading the whole chunk can overflow the call stack
+  for (let i = 0; i < bytes.length; i += 0x2000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x2000));
+  }
+  return btoa(binary);
+}
+
+export function decodeChunk(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * Adds a chunk to a transfer. Chunks must arrive in order; returns false otherwise.
+ */
+export function appendChunk(transfer: IncomingTransfer, chunk: FileChunk): boolean {
+  if (chunk.index !== transfer.chunks.length || chunk.index >= transfer.start.chunks) return false;
+  transfer.chunks.push(decodeChunk(chunk.data));
+  return true;
+}
+
+/**
+ * Assembles a finished transfer, or returns null if the bytes don't match the announced size.
+ */
+export function assembleTransfer(transfer: IncomingTransfer): Blob | null {
+  const blob = new Blob(transfer.chunks as BlobPart[], { type: transfer.start.mime });
+  return blob.size === transfer.start.size ? blob : null;
+}
+
+export const isImageType = (mime: string) => mime.startsWith('image/');
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,123 @@
+export type CallQuality = 'good' | 'fair' | 'poor';
+
+export interface CallStats {
+  rttMs: number | null; // Round trip on the selected candidate pair
+  packetLoss: number | null; // Fraction (0-1) of inbound packets lost since the previous sample
+  jitterMs: number | null; // Worst of inbound audio/video jitter
+  inboundKbps: number | null;
+  outboundKbps: number | null;
+  resolution: { width: number; height: number } | null; // Partner's video as we receive it
+  relayed: boolean; // Media goes through a TURN server
+  timestamp: number;
+}
+
+// Cumulative counters from the previous sample, used to turn totals into rates
+export interface CallStatsSnapshot {
+  timestamp: number;
+  bytesReceived: number;
+  bytesSent: number;
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+// [fair, poor] thresholds
+const RTT_MS_LIMITS = [200, 400];
+const LOSS_LIMITS = [0.02, 0.08];
+const JITTER_MS_LIMITS = [30, 60];
+
+// Firefox flags the selected pair itself, and candidate stats are missing from the DOM typings
+type CandidatePairStats = RTCIceCandidatePairStats & { selected?: boolean };
+interface CandidateStats extends RTCStats {
+  candidateType?: RTCIceCandidateType;
+}
+
+// getStats() entries are told apart by `type`; this narrows to the typing for one
+const ofType = <T extends RTCStats>(entries: RTCStats[], type: RTCStatsType): T[] =>
+  entries.filter(entry => entry.type === type) as T[];
+
+const findSelectedPair = (entries: RTCStats[]): CandidatePairStats | undefined => {
+  const pairs = ofType<CandidatePairStats>(entries, 'candidate-pair');
+  const selectedId = ofType<RTCTransportStats>(entries, 'transport')
+    .find(transport => transport.selectedCandidatePairId)?.selectedCandidatePairId;
+  if (selectedId) return pairs.find(pair => pair.id === selectedId);
+  // Firefox has no transport stats; it flags the pair instead
+  return pairs.find(pair => pair.selected || (pair.nominated && pair.state === 'succeeded'));
+};
+
+const kbps = (bytes: number, previousBytes: number | undefined, elapsedMs: number) =>
+  previousBytes === undefined || elapsedMs <= 0 ? null : Math.max(0, ((bytes - previousBytes) * 8) / elapsedMs);
+
+/**
+ * Turns a getStats() report into call metrics. Rates (loss, bitrate) need the
+ * previous snapshot and are null on the first sample.
+ */
+export function computeCallStats(
+  report: RTCStatsReport,
+  previous: CallStatsSnapshot | null
+): { stats: CallStats; snapshot: CallStatsSnapshot } {
+  const entries: RTCStats[] = [];
+  report.forEach((entry: RTCStats) => entries.push(entry));
+
+  const pair = findSelectedPair(entries);
+  const candidates = [
+    ...ofType<CandidateStats>(entries, 'local-candidate'),
+    ...ofType<CandidateStats>(entries, 'remote-candidate'),
+  ];
+  const relayed = !!pair && candidates.some(candidate =>
+    (candidate.id === pair.localCandidateId || candidate.id === pair.remoteCandidateId) && candidate.candidateType === 'relay'
+  );
+
+  const snapshot: CallStatsSnapshot = { timestamp: Date.now(), bytesReceived: 0, bytesSent: 0, packetsReceived: 0, packetsLost: 0 };
+  let jitterMs: number | null = null;
+  let resolution: CallStats['resolution'] = null;
+
+  for (const entry of ofType<RTCInboundRtpStreamStats>(entries, 'inbound-rtp')) {
+    snapshot.bytesReceived += entry.bytesReceived ?? 0;
+    snapshot.packetsReceived += entry.packetsReceived ?? 0;
+    snapshot.packetsLost += Math.max(0, entry.packetsLost ?? 0);
+    if (typeof entry.jitter === 'number') jitterMs = Math.max(jitterMs ?? 0, entry.jitter * 1000);
+    if (entry.kind === 'video' && entry.frameWidth && entry.frameHeight) {
+      resolution = { width: entry.frameWidth, height: entry.frameHeight };
+    }
+  }
+  for (const entry of ofType<RTCOutboundRtpStreamStats>(entries, 'outbound-rtp')) {
+    snapshot.bytesSent += entry.bytesSent ?? 0;
+  }
+
+  const elapsedMs = previous ? snapshot.timestamp - previous.timestamp : 0;
+  let packetLoss: number | null = null;
+  if (previous) {
+    const lost = snapshot.packetsLost - previous.packetsLost;
+    const total = lost + snapshot.packetsReceived - previous.packetsReceived;
+    packetLoss = total > 0 ? Math.max(0, lost) / total : 0;
+  }
+
+  return {
+    stats: {
+      rttMs: typeof pair?.currentRoundTripTime === 'number' ? pair.currentRoundTripTime * 1000 : null,
+      packetLoss,
+      jitterMs,
+      inboundKbps: kbps(snapshot.bytesReceived, previous?.bytesReceived, elapsedMs),
+      outboundKbps: kbps(snapshot.bytesSent, previous?.bytesSent, elapsedMs),
+      resolution,
+      relayed,
+      timestamp: snapshot.timestamp,
+    },
+    snapshot,
+  };
+}
+
+const level = (value: number | null, [fair, poor]: number[]): number =>
+  value === null ? 0 : value >= poor ? 2 : value >= fair ? 1 : 0;
+
+/**
+ * Overall quality is the worst of RTT, loss and jitter.
+ */
+export function rateCallQuality(stats: CallStats): CallQuality {
+  const worst = Math.max(
+    level(stats.rttMs, RTT_MS_LIMITS),
+    level(stats.packetLoss, LOSS_LIMITS),
+    level(stats.jitterMs, JITTER_MS_LIMITS),
+  );
+  return worst === 2 ? 'poor' : worst === 1 ? 'fair' : 'good';
+}
@@ -0,0 +1,158 @@
+import { Message } from '@/types/chat';
+import { Transcript, createTranscript } from '@/lib/transcript';
+
+// A finished chat as kept in IndexedDB. Files are stored by name/size only.
+export interface StoredConversation {
+  id: string; // The conversation's first message id, so saving it twice overwrites
+  startedAt: number;
+  endedAt: number;
+  messageCount: number; // Excluding system messages
+  transcript: Transcript;
+}
+
+export interface HistorySettings {
+  enabled: boolean;
+  retentionDays: number | null; // null keeps conversations until deleted by hand
+}
+
+export const RETENTION_OPTIONS: (number | null)[] = [1, 7, 30, 90, null];
+
+const DB_NAME = 'whimsy';
+const DB_VERSION = 1;
+const STORE = 'conversations';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SETTINGS_KEYS = {
+  enabled: 'whimsyHistoryEnabled',
+  retentionDays: 'whimsyHistoryRetentionDays',
+};
+const DEFAULT_SETTINGS: HistorySettings = { enabled: true, retentionDays: 30 };
+
+export function getHistorySettings(): HistorySettings {
+  try {
+    const enabled = localStorage.getItem(SETTINGS_KEYS.enabled);
+    const retention = localStorage.getItem(SETTINGS_KEYS.retentionDays);
+    return {
+      enabled: enabled === null ? DEFAULT_SETTINGS.enabled : enabled === 'true',
+      retentionDays: retention === null ? DEFAULT_SETTINGS.retentionDays
+        : retention === 'never' ? null
+        : Number(retention) || DEFAULT_SETTINGS.retentionDays,
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveHistorySettings(settings: HistorySettings): void {
+  try {
+    localStorage.setItem(SETTINGS_KEYS.enabled, String(settings.enabled));
+    localStorage.setItem(SETTINGS_KEYS.retentionDays, settings.retentionDays === null ? 'never' : String(settings.retentionDays));
+  } catch {
+    // Best effort; the defaults apply next time
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('endedAt', 'endedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      dbPromise = null; // Let a later call try again
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+// Runs one request in its own transaction and resolves once that transaction commits
+async function runRequest<T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = makeRequest(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Stores a conversation if history is on and it had at least one real message.
+ * Returns whether anything was written.
+ */
+export async function archiveConversation(messages: Message[]): Promise<boolean> {
+  if (!getHistorySettings().enabled) return false;
+  const messageCount = messages.filter(msg => !msg.system).length;
+  if (messageCount === 0) return false;
+
+  const conversation: StoredConversation = {
+    id: messages[0].id,
+    startedAt: messages[0].timestamp,
+    endedAt: messages[messages.length - 1].timestamp,
+    messageCount,
+    transcript: createTranscript(messages),
+  };
+  await runRequest('readwrite', store => store.put(conversation));
+  return true;
+}
+
+/**
+ * All stored conversations, most recent first.
+ */
+export async function listConversations(): Promise<StoredConversation[]> {
+  const conversations = await runRequest('readonly', store => store.getAll() as IDBRequest<StoredConversation[]>);
+  return conversations.sort((a, b) => b.endedAt - a.endedAt);
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  await runRequest('readwrite', store => store.delete(id));
+}
+
+export async function clearHistory(): Promise<void> {
+  await runRequest('readwrite', store => store.clear());
+}
+
+/**
+ * Deletes conversations that ended longer ago than the retention setting allows.
+ */
+export async function purgeExpiredConversations(retentionDays = getHistorySettings().retentionDays): Promise<void> {
+  if (retentionDays === null) return;
+  const cutoff = IDBKeyRange.upperBound(Date.now() - retentionDays * DAY_MS);
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE, 'readwrite');
+    const cursorRequest = transaction.objectStore(STORE).index('endedAt').openCursor(cutoff);
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Case-insensitive match on any message text or file name in the transcript.
+ */
+export function conversationMatches(conversation: StoredConversation, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return conversation.transcript.messages.some(entry =>
+    entry.text.toLowerCase().includes(needle) || entry.attachment?.name.toLowerCase().includes(needle)
+  );
+}
@@ -0,0 +1,99 @@
+import type { Locale as DateLocale } from 'date-fns';
+import { enUS, es as esDates } from 'date-fns/locale';
+import en, { MessageKey } from '@/locales/en';
+import es from '@/locales/es';
+
+export type { MessageKey };
+export type TranslationParams = Record<string, string | number>;
+
+export const LOCALES = ['en', 'es'] as const;
+export type Locale = typeof LOCALES[number];
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Each locale's name in its own language, for the switcher
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+};
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, es };
+const DATE_LOCALES: Record<Locale, DateLocale> = { en: enUS, es: esDates };
+
+const STORAGE_KEY = 'whimsyLocale';
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+
+/**
+ * Looks up `key` in the locale's catalog (falling back to English) and fills in {placeholders}.
+ */
+export function translate(locale: Locale, key: MessageKey, params?: TranslationParams): string {
+  const template = CATALOGS[locale][key] ?? en[key] ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * The saved choice if there is one, otherwise the first browser language we ship.
+ */
+export function detectLocale(): Locale {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // Storage blocked; fall through to the browser languages
+  }
+  const preferred = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  for (const tag of preferred) {
+    const base = tag?.toLowerCase().split('-')[0];
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+}
+
+export function saveLocale(locale: Locale): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // Best effort; detection picks a locale next time
+  }
+}
+
+export const dateLocale = (locale: Locale): DateLocale => DATE_LOCALES[locale];
+
+// The locale the UI is showing, kept by I18nProvider. Lets hooks and helpers word
+// toasts and errors at the moment they happen without threading the locale through.
+let activeLocale: Locale = DEFAULT_LOCALE;
+
+export function setActiveLocale(locale: Locale): void {
+  activeLocale = locale;
+}
+
+export const getActiveLocale = (): Locale => activeLocale;
+
+/**
+ * Translates into the active locale. Components should prefer `t` from useI18n so
+ * they re-render when the locale changes.
+ */
+export const t = (key: MessageKey, params?: TranslationParams): string => translate(activeLocale, key, params);
+
+// Errors from the server, the shared backend modules and the partner's client travel
+// as codes: the part of an errors.* key after the dot, plus any placeholder params
+export type ErrorCode = { [Key in MessageKey]: Key extends `errors.${infer Code}` ? Code : never }[MessageKey];
+
+/**
+ * The catalog key for an error code. Codes this build doesn't know, e.g. from a newer
+ * server, fall back to a generic message.
+ */
+export function errorKey(code: string): MessageKey {
+  const key = `errors.${code}`;
+  return key in en ? (key as MessageKey) : 'errors.unknown';
+}
+
+/**
+ * Words an error code in the active locale, for toasts and logs. Errors kept on screen
+ * should store the code and go through errorKey at render time instead.
+ */
+export const describeError = (code: string, params?: TranslationParams): string => t(errorKey(code), params);
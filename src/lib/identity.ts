@@ -0,0 +1,39 @@
+import { v4 as uuidv4 } from 'uuid';
+
+export interface AnonymousIdentity {
+  id: string;
+  persistent: boolean; // Survives reloads, so the server may persist blocks against it
+}
+
+const PERSISTENT_KEY = 'whimsyUserId';
+const SESSION_KEY = 'whimsySessionId';
+
+let cachedIdentity: AnonymousIdentity | null = null;
+
+function readOrCreate(storage: Storage, key: string): string {
+  let id = storage.getItem(key);
+  if (!id) {
+    id = uuidv4();
+    storage.setItem(key, id);
+  }
+  return id;
+}
+
+/**
+ * Returns this browser's anonymous id. Prefers localStorage; falls back to a
+ * tab-scoped id when storage is unavailable (e.g. some private browsing modes).
+ */
+export function getAnonymousIdentity(): AnonymousIdentity {
+  if (cachedIdentity) return cachedIdentity;
+
+  try {
+    cachedIdentity = { id: readOrCreate(localStorage, PERSISTENT_KEY), persistent: true };
+  } catch {
+    try {
+      cachedIdentity = { id: readOrCreate(sessionStorage, SESSION_KEY), persistent: false };
+    } catch {
+      cachedIdentity = { id: uuidv4(), persistent: false };
+    }
+  }
+  return cachedIdentity;
+}
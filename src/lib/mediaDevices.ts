@@ -0,0 +1,56 @@
+export type InputDeviceKind = 'audioinput' | 'videoinput';
+
+export type PreferredDevices = Partial<Record<InputDeviceKind, string>>;
+
+const STORAGE_KEYS: Record<InputDeviceKind, string> = {
+  audioinput: 'whimsyAudioInputId',
+  videoinput: 'whimsyVideoInputId',
+};
+
+/**
+ * Returns the mic/camera the user last picked. Missing entries mean "browser default".
+ */
+export function getPreferredDevices(): PreferredDevices {
+  const preferred: PreferredDevices = {};
+  try {
+    for (const kind of Object.keys(STORAGE_KEYS) as InputDeviceKind[]) {
+      const id = localStorage.getItem(STORAGE_KEYS[kind]);
+      if (id) preferred[kind] = id;
+    }
+  } catch {
+    // Storage unavailable; everything stays on the default device
+  }
+  return preferred;
+}
+
+/**
+ * Remembers a device choice. An empty id clears it back to the browser default.
+ */
+export function savePreferredDevice(kind: InputDeviceKind, deviceId: string): void {
+  try {
+    if (deviceId) {
+      localStorage.setItem(STORAGE_KEYS[kind], deviceId);
+    } else {
+      localStorage.removeItem(STORAGE_KEYS[kind]);
+    }
+  } catch {
+    // Best effort; the choice still applies to the current call
+  }
+}
+
+/**
+ * getUserMedia constraint for one kind. Stored ids are only `ideal` so an unplugged
+ * device falls back to the default instead of failing the call.
+ */
+export function deviceConstraint(deviceId: string | undefined): MediaTrackConstraints | boolean {
+  return deviceId ? { deviceId: { ideal: deviceId } } : true;
+}
+
+/**
+ * Lists microphones and cameras. Labels are empty until the user has granted media permission.
+ */
+export async function listInputDevices(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput' || device.kind === 'videoinput');
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+
+/**
+ * Checks the `Authorization: Bearer <token>` header against MODERATOR_TOKEN.
+ * Returns an error response to send back, or null if the request is allowed.
+ * Moderation endpoints stay disabled until MODERATOR_TOKEN is configured.
+ */
+export function requireModerator(request: Request): NextResponse | null {
+  const token = process.env.MODERATOR_TOKEN;
+  if (!token) {
+    return NextResponse.json(
+      { success: false, message: 'Moderation API is not configured.' },
+      { status: 503 }
+    );
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${token}`) {
+    return NextResponse.json(
+      { success: false, message: 'Unauthorized.' },
+      { status: 401 }
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,117 @@
+import { AckError, PeerChatEvent } from '@/types/chat';
+import type { ErrorCode, TranslationParams } from '@/lib/i18n';
+import { ContentFilterConfig, RateLimit } from '@/lib/socket';
+import { createDefaultFilters, createFilters, runContentFilters } from '../../backend/contentFilters';
+import { createEventLimiter } from '../../backend/rateLimiter';
+import { MAX_MESSAGE_LENGTH } from '../../backend/messageLimits';
+import { parseFileChunk, parseFileStart } from '@/lib/attachments';
+import { parseReaction } from '@/lib/reactions';
+
+export { MAX_MESSAGE_LENGTH };
+
+// Same limits the server enforces on relayed messages
+const MAX_MESSAGE_ID_LENGTH = 64;
+const MAX_READ_IDS = 100;
+
+/*
+ * Peer-to-peer events never reach the server, so the receiving side enforces what the
+ * relay would: the server sends its filter config and per-event rate limits in
+ * chat-config, receivers drop (and for messages, refuse with a failed ack) anything
+ * that breaks them, and flags are reported back with a peer-flag event. File and
+ * reaction payloads go through the same validators the server uses.
+ *
+ * What the server still can't do for this path: it only learns about flags the
+ * receiving client chooses to report, and the edit window is measured from when the
+ * receiver got the message (plus a grace period) instead of by the server's clock.
+ */
+
+export type PeerFilters = ReturnType<typeof createFilters>;
+export type PeerLimiter = ReturnType<typeof createEventLimiter>;
+
+/**
+ * The server's filter chain, or the built-in defaults until its config arrives.
+ */
+export function createPeerFilters(config?: ContentFilterConfig): PeerFilters {
+  return config ? createFilters(config) : createDefaultFilters({});
+}
+
+export function createPeerLimiter(limits: Record<string, RateLimit>): PeerLimiter {
+  return createEventLimiter(limits);
+}
+
+const isMessageId = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0 && value.length <= MAX_MESSAGE_ID_LENGTH;
+
+// Error params only fill catalog placeholders, so anything but short strings and numbers is dropped
+const isErrorParams = (value: unknown): value is TranslationParams =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+  && Object.values(value).every(param => typeof param === 'number' || (typeof param === 'string' && param.length <= 100));
+
+/**
+ * Validates an event received on the data channel. Returns null for anything malformed.
+ */
+export function parsePeerEvent(value: unknown): PeerChatEvent | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const event = value as Record<string, unknown>;
+
+  switch (event.type) {
+    case 'message':
+      if (!isMessageId(event.id) || typeof event.text !== 'string') return null;
+      if (event.text.trim().length === 0 || event.text.length > MAX_MESSAGE_LENGTH) return null;
+      return { type: 'message', id: event.id, text: event.text };
+    case 'ack': {
+      const result = event.result as Record<string, unknown> | null;
+      if (!isMessageId(event.id) || typeof result !== 'object' || result === null) return null;
+      if (result.ok === true) {
+        return { type: 'ack', id: event.id, result: typeof result.text === 'string' ? { ok: true, text: result.text } : { ok: true } };
+      }
+      if (result.ok === false && typeof result.error === 'string') {
+        // Unknown codes are kept; describeError words them generically
+        const error = result.error as ErrorCode;
+        return {
+          type: 'ack',
+          id: event.id,
+          result: isErrorParams(result.params) ? { ok: false, error, params: result.params } : { ok: false, error },
+        };
+      }
+      return null;
+    }
+    case 'read':
+      if (!Array.isArray(event.ids) || event.ids.length > MAX_READ_IDS || !event.ids.every(isMessageId)) return null;
+      return { type: 'read', ids: event.ids };
+    case 'typing':
+      return typeof event.isTyping === 'boolean' ? { type: 'typing', isTyping: event.isTyping } : null;
+    case 'edit':
+      if (!isMessageId(event.id) || typeof event.text !== 'string') return null;
+      if (event.text.trim().length === 0 || event.text.length > MAX_MESSAGE_LENGTH) return null;
+      return { type: 'edit', id: event.id, text: event.text };
+    case 'unsend':
+      return isMessageId(event.id) ? { type: 'unsend', id: event.id } : null;
+    case 'reaction': {
+      const reaction = parseReaction(event);
+      return reaction ? { type: 'reaction', ...reaction } : null;
+    }
+    case 'file-start': {
+      const start = parseFileStart(event);
+      return start ? { type: 'file-start', ...start } : null;
+    }
+    case 'file-chunk': {
+      const chunk = parseFileChunk(event);
+      return chunk ? { type: 'file-chunk', ...chunk } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Runs an incoming peer message through the content filters. Flags are for the
+ * caller to report to the server.
+ */
+export function filterPeerMessage(
+  filters: PeerFilters,
+  text: string,
+  chatStartedAt: number | null
+): { text: string; rejected: AckError | null; flags: string[] } {
+  return runContentFilters(filters, { text, chatStartedAt, now: Date.now() });
+}
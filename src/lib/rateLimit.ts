@@ -0,0 +1,51 @@
+/**
+ * Fixed-window, in-memory rate limiter keyed by an arbitrary string (e.g. client IP).
+ * State is per process, which is fine for a single Next.js server.
+ */
+export function createRateLimiter({ limit, windowMs }: { limit: number; windowMs: number }) {
+  const hits = new Map<string, { count: number; resetAt: number }>();
+
+  return function consume(key: string): { allowed: boolean; retryAfterMs: number } {
+    const now = Date.now();
+    const entry = hits.get(key);
+
+    if (!entry || entry.resetAt <= now) {
+      hits.set(key, { count: 1, resetAt: now + windowMs });
+      // Opportunistically drop expired keys so the map doesn't grow forever
+      if (hits.size > 1000) {
+        for (const [k, v] of hits) {
+          if (v.resetAt <= now) hits.delete(k);
+        }
+      }
+      return { allowed: true, retryAfterMs: 0 };
+    }
+
+    if (entry.count >= limit) {
+      return { allowed: false, retryAfterMs: entry.resetAt - now };
+    }
+
+    entry.count += 1;
+    return { allowed: true, retryAfterMs: 0 };
+  };
+}
+
+// How many reverse proxies sit in front of the app. X-Forwarded-For is only read
+// when this is set, since without a proxy anyone can write whatever they like into it.
+const TRUSTED_PROXY_HOPS = parseInt(process.env.TRUST_PROXY_HOPS ?? '', 10) || 0;
+
+/**
+ * The client's address as reported by our own proxies, or null when no proxy is
+ * trusted (or the header doesn't have the entry it should).
+ */
+export function getClientKey(headers: Headers): string | null {
+  if (TRUSTED_PROXY_HOPS <= 0) return null;
+
+  const forwarded = headers.get('x-forwarded-for');
+  if (forwarded) {
+    // Each proxy appends the address it saw, so only the last `hops` entries are ours;
+    // anything before them came from the client
+    const chain = forwarded.split(',').map(entry => entry.trim()).filter(Boolean);
+    return chain[chain.length - TRUSTED_PROXY_HOPS] || null;
+  }
+  return headers.get('x-real-ip') || null;
+}
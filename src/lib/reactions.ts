@@ -0,0 +1,27 @@
+import { MessageReactions, Reaction, ReactionBy } from '@/types/chat';
+import { REACTION_EMOJIS, validateReaction } from '../../backend/reactions';
+
+export { REACTION_EMOJIS };
+
+export function parseReaction(value: unknown): Reaction | null {
+  const result = validateReaction(value);
+  return result.ok && result.value ? result.value : null;
+}
+
+/**
+ * Adds or removes one side's reaction. Emoji nobody uses any more are dropped.
+ */
+export function applyReaction(
+  reactions: MessageReactions | undefined,
+  emoji: string,
+  by: ReactionBy,
+  active: boolean
+): MessageReactions {
+  const others = (reactions?.[emoji] ?? []).filter(who => who !== by);
+  const next: MessageReactions = { ...reactions, [emoji]: active ? [...others, by] : others };
+  if (next[emoji]!.length === 0) delete next[emoji];
+  return next;
+}
+
+export const hasReacted = (reactions: MessageReactions | undefined, emoji: string, by: ReactionBy) =>
+  !!reactions?.[emoji]?.includes(by);
@@ -0,0 +1,158 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { NewReport, Report, ReportStatus } from '@/types/report';
+
+/**
+ * Storage backend for user reports. Swap implementations with setReportStore().
+ */
+export interface ReportStore {
+  create: (report: NewReport) => Promise<Report>;
+  list: (filter?: { status?: ReportStatus }) => Promise<Report[]>;
+  updateStatus: (id: string, status: ReportStatus) => Promise<Report | null>;
+}
+
+function buildReport(input: NewReport): Report {
+  const now = new Date().toISOString();
+  return {
+    id: randomUUID(),
+    ...input,
+    status: 'open',
+    created_at: now,
+    updated_at: now,
+  };
+}
+
+// Keeps the store from growing without bound. Handled reports are dropped first, oldest
+// first; open ones only once there is nothing else left to drop.
+const MAX_STORED_REPORTS = parseInt(process.env.REPORTS_MAX ?? '', 10) || 5000;
+
+function capReports(reports: Report[]): Report[] {
+  const excess = reports.length - MAX_STORED_REPORTS;
+  if (excess <= 0) return reports;
+  const dropped = new Set(
+    [...reports]
+      .sort((a, b) => Number(a.status === 'open') - Number(b.status === 'open') || a.created_at.localeCompare(b.created_at))
+      .slice(0, excess)
+      .map(report => report.id)
+  );
+  return reports.filter(report => !dropped.has(report.id));
+}
+
+function filterReports(reports: Report[], filter: { status?: ReportStatus } = {}): Report[] {
+  return reports
+    .filter(report => !filter.status || report.status === filter.status)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+/**
+ * Keeps reports in process memory. Useful for tests and throwaway deployments.
+ */
+export function createMemoryReportStore(): ReportStore {
+  const reports = new Map<string, Report>();
+
+  return {
+    async create(input) {
+      const report = buildReport(input);
+      reports.set(report.id, report);
+      if (reports.size > MAX_STORED_REPORTS) {
+        const kept = new Set(capReports([...reports.values()]));
+        for (const [id, stored] of reports) {
+          if (!kept.has(stored)) reports.delete(id);
+        }
+      }
+      return report;
+    },
+    async list(filter) {
+      return filterReports([...reports.values()], filter);
+    },
+    async updateStatus(id, status) {
+      const report = reports.get(id);
+      if (!report) return null;
+      const updated = { ...report, status, updated_at: new Date().toISOString() };
+      reports.set(id, updated);
+      return updated;
+    },
+  };
+}
+
+/**
+ * Persists reports to a JSON file, capped at MAX_STORED_REPORTS so each rewrite stays
+ * bounded. Writes are serialized so concurrent requests in the same process never
+ * clobber each other.
+ */
+export function createFileReportStore(filePath: string): ReportStore {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const readAll = async (): Promise<Report[]> => {
+    try {
+      const raw = await fs.readFile(filePath, 'utf8');
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+  };
+
+  const writeAll = async (reports: Report[]) => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(reports, null, 2), 'utf8');
+    await fs.rename(tmpPath, filePath);
+  };
+
+  const serialized = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  return {
+    create(input) {
+      return serialized(async () => {
+        const reports = await readAll();
+        const report = buildReport(input);
+        reports.push(report);
+        await writeAll(capReports(reports));
+        return report;
+      });
+    },
+    list(filter) {
+      return serialized(async () => filterReports(await readAll(), filter));
+    },
+    updateStatus(id, status) {
+      return serialized(async () => {
+        const reports = await readAll();
+        const index = reports.findIndex(report => report.id === id);
+        if (index === -1) return null;
+        reports[index] = { ...reports[index], status, updated_at: new Date().toISOString() };
+        await writeAll(reports);
+        return reports[index];
+      });
+    },
+  };
+}
+
+let store: ReportStore | null = null;
+
+/**
+ * Returns the configured report store. Defaults to a JSON file under .data/
+ * (override with REPORTS_FILE), or memory when REPORT_STORE=memory. REPORTS_MAX caps
+ * how many reports either keeps.
+ */
+export function getReportStore(): ReportStore {
+  if (!store) {
+    store = process.env.REPORT_STORE === 'memory'
+      ? createMemoryReportStore()
+      : createFileReportStore(process.env.REPORTS_FILE || path.join(process.cwd(), '.data', 'reports.json'));
+  }
+  return store;
+}
+
+/**
+ * Replaces the active report store, e.g. with a database-backed implementation.
+ */
+export function setReportStore(next: ReportStore): void {
+  store = next;
+}
@@ -0,0 +1,66 @@
+// src/lib/richText.test.ts
+import { test } from 'vitest';
+import assert from 'node:assert/strict';
+import { parseRichText, safeLinkHref, toPlainText } from './richText';
+
+test('code blocks keep their contents unformatted', () => {
+  assert.deepEqual(parseRichText('before\n```\nconst a = **1**;\n```\nafter'), [
+    { type: 'text', text: 'before\n' },
+    { type: 'codeBlock', text: 'const a = **1**;' },
+    { type: 'text', text: '\nafter' },
+  ]);
+  assert.deepEqual(parseRichText('```\nline one\n  line two\n```'), [
+    { type: 'codeBlock', text: 'line one\n  line two' },
+  ]);
+  assert.deepEqual(parseRichText('``````'), []);
+});
+
+test('inline code wins over emphasis', () => {
+  assert.deepEqual(parseRichText('use `*x*` here'), [
+    { type: 'text', text: 'use ' },
+    { type: 'code', text: '*x*' },
+    { type: 'text', text: ' here' },
+  ]);
+});
+
+test('emphasis nests up to two levels', () => {
+  assert.deepEqual(parseRichText('**bold _and italic_**'), [
+    { type: 'bold', children: [{ type: 'text', text: 'bold ' }, { type: 'italic', children: [{ type: 'text', text: 'and italic' }] }] },
+  ]);
+  assert.deepEqual(parseRichText('**_*deep*_**'), [
+    { type: 'bold', children: [{ type: 'italic', children: [{ type: 'text', text: '*deep*' }] }] },
+  ]);
+});
+
+test('unterminated markers stay literal', () => {
+  for (const text of ['**not closed', '*half', '_open', '`open code', '```\nno closing fence', 'a ** b ** c']) {
+    assert.deepEqual(parseRichText(text), [{ type: 'text', text }], text);
+  }
+});
+
+test('markers inside words are left alone', () => {
+  assert.deepEqual(parseRichText('snake_case_name and 2*3*4'), [{ type: 'text', text: 'snake_case_name and 2*3*4' }]);
+});
+
+test('bare URLs become links without trailing punctuation', () => {
+  assert.deepEqual(parseRichText('see www.example.com.'), [
+    { type: 'text', text: 'see ' },
+    { type: 'link', href: 'https://www.example.com/', text: 'www.example.com' },
+    { type: 'text', text: '.' },
+  ]);
+  assert.deepEqual(parseRichText('(https://example.com/a_(b))'), [
+    { type: 'text', text: '(' },
+    { type: 'link', href: 'https://example.com/a_(b)', text: 'https://example.com/a_(b)' },
+    { type: 'text', text: ')' },
+  ]);
+});
+
+test('only http(s) links are allowed', () => {
+  assert.equal(safeLinkHref('javascript:alert(1)'), null);
+  assert.equal(safeLinkHref('ftp://example.com'), null);
+  assert.equal(safeLinkHref('www.example.com'), 'https://www.example.com/');
+});
+
+test('plain text drops the markers', () => {
+  assert.equal(toPlainText('**hi** _there_ `code`'), 'hi there code');
+});
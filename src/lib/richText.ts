@@ -0,0 +1,143 @@
+// A deliberately small formatting subset for chat text. The parser only produces
+// plain data; rendering builds React elements from it, so no markup is ever injected.
+export type RichNode =
+  | { type: 'text'; text: string }
+  | { type: 'bold'; children: RichNode[] }
+  | { type: 'italic'; children: RichNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'codeBlock'; text: string }
+  | { type: 'link'; href: string; text: string };
+
+const CODE_BLOCK_PATTERN = /```(?:[^\S\n]*\n)?([\s\S]*?)\n?```/g;
+
+// Inline code, **bold**, *italic*, _italic_ and bare URLs, in that order of precedence.
+// Emphasis markers must hug their text and can't sit inside a word (so snake_case stays as is).
+const INLINE_PATTERN = new RegExp([
+  '`([^`\\n]+)`',
+  '\\*\\*(?=\\S)([^\\n]*?\\S)\\*\\*',
+  '(?<![\\w*])\\*(?=[^\\s*])([^*\\n]*?[^\\s*])\\*(?![\\w*])',
+  '(?<![\\w_])_(?=[^\\s_])([^_\\n]*?[^\\s_])_(?![\\w_])',
+  '((?:https?:\\/\\/|www\\.)[^\\s<>"]+)',
+].join('|'), 'gi');
+
+const MAX_NESTING = 2; // **_like this_** is fine; deeper markers stay literal
+
+/**
+ * Returns an absolute http(s) URL for a link in chat text, or null for anything else.
+ */
+export function safeLinkHref(raw: string): string | null {
+  try {
+    const url = new URL(/^www\./i.test(raw) ? `https://${raw}` : raw);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+// Sentence punctuation after a URL isn't part of it; a closing paren only is if it has a partner
+function trimUrl(url: string): string {
+  let end = url.length;
+  while (end > 0) {
+    const char = url[end - 1];
+    if ('.,;:!?\'"'.includes(char)) {
+      end--;
+    } else if (char === ')' && url.slice(0, end).split(')').length > url.slice(0, end).split('(').length) {
+      end--;
+    } else {
+      break;
+    }
+  }
+  return url.slice(0, end);
+}
+
+function pushText(nodes: RichNode[], text: string) {
+  if (!text) return;
+  const last = nodes[nodes.length - 1];
+  if (last?.type === 'text') {
+    last.text += text;
+  } else {
+    nodes.push({ type: 'text', text });
+  }
+}
+
+function parseInline(text: string, depth: number): RichNode[] {
+  const nodes: RichNode[] = [];
+  const pattern = new RegExp(INLINE_PATTERN.source, INLINE_PATTERN.flags);
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const [whole, code, bold, starItalic, underscoreItalic, url] = match;
+    let consumed = whole;
+    let node: RichNode | null = null;
+
+    if (code !== undefined) {
+      node = { type: 'code', text: code };
+    } else if (bold !== undefined || starItalic !== undefined || underscoreItalic !== undefined) {
+      if (depth < MAX_NESTING) {
+        node = bold !== undefined
+          ? { type: 'bold', children: parseInline(bold, depth + 1) }
+          : { type: 'italic', children: parseInline(starItalic ?? underscoreItalic, depth + 1) };
+      }
+    } else if (url !== undefined) {
+      consumed = trimUrl(url);
+      const href = safeLinkHref(consumed);
+      if (href) node = { type: 'link', href, text: consumed };
+      pattern.lastIndex = match.index + consumed.length;
+    }
+
+    pushText(nodes, text.slice(cursor, match.index));
+    if (node) {
+      nodes.push(node);
+    } else {
+      pushText(nodes, consumed);
+    }
+    cursor = match.index + consumed.length;
+  }
+  pushText(nodes, text.slice(cursor));
+  return nodes;
+}
+
+/**
+ * Parses chat text into formatting nodes. Code blocks are taken out first so
+ * nothing inside them is formatted.
+ */
+export function parseRichText(text: string): RichNode[] {
+  const nodes: RichNode[] = [];
+  const pattern = new RegExp(CODE_BLOCK_PATTERN.source, CODE_BLOCK_PATTERN.flags);
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    nodes.push(...parseInline(text.slice(cursor, match.index), 0));
+    if (match[1].trim()) {
+      nodes.push({ type: 'codeBlock', text: match[1] });
+    }
+    cursor = match.index + match[0].length;
+  }
+  nodes.push(...parseInline(text.slice(cursor), 0));
+  return nodes;
+}
+
+const nodesToPlainText = (nodes: RichNode[]): string => nodes.map(node => {
+  switch (node.type) {
+    case 'bold':
+    case 'italic':
+      return nodesToPlainText(node.children);
+    default:
+      return node.text;
+  }
+}).join('');
+
+/**
+ * The text with formatting markers removed, e.g. for plain-text transcripts.
+ */
+export function toPlainText(text: string): string {
+  return nodesToPlainText(parseRichText(text));
+}
+
+/**
+ * Where a chat link actually points: the "you are leaving" page, which shows the
+ * destination before going there.
+ */
+export const leavePageHref = (href: string) => `/leave?url=${encodeURIComponent(href)}`;
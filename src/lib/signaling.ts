@@ -0,0 +1,22 @@
+import { SignalingMessage } from '@/types/chat';
+import { validateSignal } from '../../backend/signalingSchema';
+
+/**
+ * Validates a signal relayed by the server against the shared schema.
+ * Returns null (and logs why) for anything malformed.
+ */
+export function parseSignal(value: unknown): SignalingMessage | null {
+  const result = validateSignal(value);
+  if (!result.ok || !result.signal) {
+    console.warn('[Signaling] Dropping malformed signal:', result.detail);
+    return null;
+  }
+
+  const { sender, target } = value as { sender?: unknown; target?: unknown };
+  if (typeof sender !== 'string' || typeof target !== 'string') {
+    console.warn('[Signaling] Dropping signal without sender/target');
+    return null;
+  }
+
+  return { ...result.signal, sender, target } as SignalingMessage;
+}
@@ -1,50 +1,170 @@
 import { Socket, io } from 'socket.io-client';
-import { SignalingMessage } from '@/types/chat';
+import { ChatMode, FileChunk, FileStart, MessageAck, OutgoingSignal, Reaction, ServerStats } from '@/types/chat';
+import { getAnonymousIdentity } from '@/lib/identity';
+import type { ErrorCode } from '@/lib/i18n';
 
 export interface ServerToClientEvents {
-  'your-id': (id: string) => void;
+  'your-id': (id: string, resumeToken: string) => void;
+  'ice-servers': (servers: RTCIceServer[]) => void;
+  'chat-config': (config: ChatConfig) => void;
   waiting: () => void;
-  matched: (data: { partnerId: string }) => void;
-  message: (data: { text: string }) => void;
+  matched: (data: { partnerId: string; sharedInterests: string[]; mode: ChatMode }) => void;
+  message: (data: { id: string; text: string }) => void;
+  read: (data: { ids: string[] }) => void;
+  reaction: (data: Reaction) => void;
+  edit: (data: { id: string; text: string }) => void;
+  unsend: (data: { id: string }) => void;
+  'file-start': (data: unknown) => void; // Untrusted until checked with parseFileStart
+  'file-chunk': (data: unknown) => void;
   'partner-disconnected': () => void;
+  'partner-reconnecting': () => void;
+  'partner-reconnected': (data: { partnerId: string }) => void;
+  resumed: (data: ResumedData) => void;
+  'resume-failed': () => void;
   typing: (data: { isTyping: boolean }) => void;
-  signal: (payload: SignalingMessage) => void;
-  'server-error': (message: string) => void;
+  signal: (payload: unknown) => void; // Untrusted until checked with parseSignal
+  'signal-error': (data: SignalError) => void;
+  'server-error': (error: ErrorCode) => void;
+  stats: (stats: ServerStats) => void;
+  'rate-limited': (data: RateLimitWarning) => void;
+}
+
+export interface RateLimitWarning {
+  event: string;
+  retryAfterMs: number;
+  disconnecting: boolean; // Server is about to drop the connection
+}
+
+export interface ResumedData {
+  partnerId: string;
+  sharedInterests: string[];
+  mode: ChatMode;
+  chatElapsedMs: number; // How long the chat has been going, for the early-link filter on peer messages
+}
+
+// Server-side limits the client mirrors in its UI, and applies to what the partner
+// sends over the data channel
+export interface ChatConfig {
+  editWindowMs: number; // How long our own messages stay editable/unsendable
+  contentFilters: ContentFilterConfig;
+  rateLimits: Record<string, RateLimit>; // Per peer event type
+}
+
+// See readFilterConfig in backend/contentFilters.js
+export interface ContentFilterConfig {
+  words: string[];
+  wordAction: 'mask' | 'reject';
+  flagWords: boolean;
+  piiAction: string; // 'mask' | 'reject' | 'off'
+  linkBlockWindowMs: number;
+}
+
+export interface RateLimit {
+  capacity: number;
+  refillPerSec: number;
+}
+
+// Filter flags raised on a peer-to-peer message, for the server's moderation queue
+export interface PeerFlag {
+  reasons: string[];
+  excerpt: string;
+}
+
+// A refused handshake carries the reason as an error code in `data`
+export type ConnectError = Error & { data?: { error?: ErrorCode } };
+
+// Sent back when the server refuses a malformed signal
+export interface SignalError {
+  type: string | null;
+  error: ErrorCode;
 }
 
 export interface ClientToServerEvents {
-  message: (data: { text: string }) => void;
+  message: (data: { id: string; text: string }, ack: (result: MessageAck) => void) => void;
+  read: (data: { ids: string[] }) => void;
+  reaction: (data: Reaction) => void;
+  edit: (data: { id: string; text: string }, ack: (result: MessageAck) => void) => void;
+  unsend: (data: { id: string }, ack: (result: MessageAck) => void) => void;
+  'file-start': (data: FileStart, ack: (result: MessageAck) => void) => void;
+  'file-chunk': (data: FileChunk, ack: (result: MessageAck) => void) => void;
   typing: (isTyping: boolean) => void;
-  signal: (payload: SignalingMessage) => void;
+  signal: (signal: OutgoingSignal) => void;
+  'peer-flag': (flag: PeerFlag) => void;
   leave: () => void;
+  block: () => void;
 }
 
 export type SocketInstance = Socket<ServerToClientEvents, ClientToServerEvents>;
 
 export interface SocketHandlers {
   onConnect?: () => void;
-  onYourId?: (id: string) => void;
+  onYourId?: (id: string, resumeToken: string) => void;
+  onIceServers?: (servers: RTCIceServer[]) => void;
+  onChatConfig?: (config: ChatConfig) => void;
   onWaiting?: () => void;
-  onMatched?: (data: { partnerId: string }) => void;
-  onMessage?: (data: { text: string }) => void;
+  onMatched?: (data: { partnerId: string; sharedInterests: string[]; mode: ChatMode }) => void;
+  onMessage?: (data: { id: string; text: string }) => void;
+  onRead?: (data: { ids: string[] }) => void;
+  onReaction?: (data: Reaction) => void;
+  onEdit?: (data: { id: string; text: string }) => void;
+  onUnsend?: (data: { id: string }) => void;
+  onFileStart?: (data: unknown) => void;
+  onFileChunk?: (data: unknown) => void;
   onTyping?: (data: { isTyping: boolean }) => void;
-  onSignal?: (payload: SignalingMessage) => void;
+  onSignal?: (payload: unknown) => void;
+  onSignalError?: (data: SignalError) => void;
   onPartnerDisconnected?: () => void;
-  onServerError?: (message: string) => void;
+  onPartnerReconnecting?: () => void;
+  onPartnerReconnected?: (data: { partnerId: string }) => void;
+  onResumed?: (data: ResumedData) => void;
+  onResumeFailed?: () => void;
+  onReconnectAttempt?: (attempt: number) => void;
+  onReconnectFailed?: () => void;
+  onServerError?: (error: ErrorCode) => void;
+  onStats?: (stats: ServerStats) => void;
+  onRateLimited?: (data: RateLimitWarning) => void;
   onDisconnect?: (reason: string) => void;
-  onConnectError?: (error: Error) => void;
+  onConnectError?: (error: ConnectError) => void;
+}
+
+export interface SocketConnectionOptions {
+  interests?: string[];
+  mode?: ChatMode;
+  getResumeToken?: () => string | null; // Read on every (re)connect attempt
 }
 
+export const MESSAGE_ACK_TIMEOUT_MS = 5000;
+const MAX_PEER_FLAG_EXCERPT = 1000; // Matches the server's message limit
+
 export const SOCKET_CONFIG = {
-  reconnection: false,
+  reconnection: true,
+  reconnectionAttempts: 5,
+  reconnectionDelay: 1000,
+  reconnectionDelayMax: 5000,
   timeout: 8000,
 };
 
 /**
- * Creates and configures a socket.io connection
+ * Creates and configures a socket.io connection.
+ * Interest tags and the chat mode are sent in the handshake so the server can match on them,
+ * along with the latest resume token so a dropped connection can rejoin its chat.
+ * The anonymous client id lets the server skip recent and blocked partners.
  */
-export function createSocketConnection(handlers: SocketHandlers = {}): SocketInstance {
-  const socket = io(process.env.NEXT_PUBLIC_SOCKET_URL, SOCKET_CONFIG);
+export function createSocketConnection(
+  handlers: SocketHandlers = {},
+  options: SocketConnectionOptions = {}
+): SocketInstance {
+  const identity = getAnonymousIdentity();
+  const socket = io(process.env.NEXT_PUBLIC_SOCKET_URL, {
+    ...SOCKET_CONFIG,
+    auth: (cb) => cb({
+      clientId: identity.id,
+      persistentId: identity.persistent,
+      interests: options.interests ?? [],
+      mode: options.mode ?? 'text',
+      resumeToken: options.getResumeToken?.() ?? null,
+    }),
+  });
 
   // Set up event listeners
   if (handlers.onConnect) {
@@ -55,6 +175,14 @@ export function createSocketConnection(handlers: SocketHandlers = {}): SocketIns
     socket.on('your-id', handlers.onYourId);
   }
 
+  if (handlers.onIceServers) {
+    socket.on('ice-servers', handlers.onIceServers);
+  }
+
+  if (handlers.onChatConfig) {
+    socket.on('chat-config', handlers.onChatConfig);
+  }
+
   if (handlers.onWaiting) {
     socket.on('waiting', handlers.onWaiting);
   }
@@ -67,6 +195,30 @@ export function createSocketConnection(handlers: SocketHandlers = {}): SocketIns
     socket.on('message', handlers.onMessage);
   }
 
+  if (handlers.onRead) {
+    socket.on('read', handlers.onRead);
+  }
+
+  if (handlers.onReaction) {
+    socket.on('reaction', handlers.onReaction);
+  }
+
+  if (handlers.onEdit) {
+    socket.on('edit', handlers.onEdit);
+  }
+
+  if (handlers.onUnsend) {
+    socket.on('unsend', handlers.onUnsend);
+  }
+
+  if (handlers.onFileStart) {
+    socket.on('file-start', handlers.onFileStart);
+  }
+
+  if (handlers.onFileChunk) {
+    socket.on('file-chunk', handlers.onFileChunk);
+  }
+
   if (handlers.onTyping) {
     socket.on('typing', handlers.onTyping);
   }
@@ -79,10 +231,47 @@ export function createSocketConnection(handlers: SocketHandlers = {}): SocketIns
     socket.on('partner-disconnected', handlers.onPartnerDisconnected);
   }
 
+  if (handlers.onPartnerReconnecting) {
+    socket.on('partner-reconnecting', handlers.onPartnerReconnecting);
+  }
+
+  if (handlers.onPartnerReconnected) {
+    socket.on('partner-reconnected', handlers.onPartnerReconnected);
+  }
+
+  if (handlers.onResumed) {
+    socket.on('resumed', handlers.onResumed);
+  }
+
+  if (handlers.onResumeFailed) {
+    socket.on('resume-failed', handlers.onResumeFailed);
+  }
+
+  // Reconnection events are emitted by the underlying Manager, not the socket
+  if (handlers.onReconnectAttempt) {
+    socket.io.on('reconnect_attempt', handlers.onReconnectAttempt);
+  }
+
+  if (handlers.onReconnectFailed) {
+    socket.io.on('reconnect_failed', handlers.onReconnectFailed);
+  }
+
+  if (handlers.onSignalError) {
+    socket.on('signal-error', handlers.onSignalError);
+  }
+
   if (handlers.onServerError) {
     socket.on('server-error', handlers.onServerError);
   }
 
+  if (handlers.onStats) {
+    socket.on('stats', handlers.onStats);
+  }
+
+  if (handlers.onRateLimited) {
+    socket.on('rate-limited', handlers.onRateLimited);
+  }
+
   if (handlers.onDisconnect) {
     socket.on('disconnect', handlers.onDisconnect);
   }
@@ -100,16 +289,106 @@ export function createSocketConnection(handlers: SocketHandlers = {}): SocketIns
 export function cleanupSocket(socket: SocketInstance | null): void {
   if (socket) {
     socket.removeAllListeners();
+    socket.io.off('reconnect_attempt');
+    socket.io.off('reconnect_failed');
     socket.disconnect();
   }
 }
 
 /**
- * Send a chat message
+ * Send a chat message. onAck reports whether the server relayed it to the partner.
+ */
+export function sendMessage(
+  socket: SocketInstance | null,
+  message: { id: string; text: string },
+  onAck: (result: MessageAck) => void
+): void {
+  const text = message.text.trim();
+  if (!socket?.connected || !text) {
+    onAck({ ok: false, error: 'notConnected' });
+    return;
+  }
+  socket.timeout(MESSAGE_ACK_TIMEOUT_MS).emit('message', { id: message.id, text }, (err, result) => {
+    onAck(err ? { ok: false, error: 'deliveryTimedOut' } : result);
+  });
+}
+
+/**
+ * React to (or take back a reaction on) a message in the current chat
+ */
+export function sendReaction(socket: SocketInstance | null, reaction: Reaction): void {
+  if (socket?.connected) {
+    socket.emit('reaction', reaction);
+  }
+}
+
+/**
+ * Announce a file transfer through the relay. Resolves with the server's verdict.
+ */
+export function sendFileStart(socket: SocketInstance | null, start: FileStart): Promise<MessageAck> {
+  return new Promise(resolve => {
+    if (!socket?.connected) {
+      resolve({ ok: false, error: 'notConnected' });
+      return;
+    }
+    socket.timeout(MESSAGE_ACK_TIMEOUT_MS).emit('file-start', start, (err, result) => {
+      resolve(err ? { ok: false, error: 'deliveryTimedOut' } : result);
+    });
+  });
+}
+
+/**
+ * Send one chunk of an announced file. Chunks must go in order, each after the previous ack.
+ */
+export function sendFileChunk(socket: SocketInstance | null, chunk: FileChunk): Promise<MessageAck> {
+  return new Promise(resolve => {
+    if (!socket?.connected) {
+      resolve({ ok: false, error: 'notConnected' });
+      return;
+    }
+    socket.timeout(MESSAGE_ACK_TIMEOUT_MS).emit('file-chunk', chunk, (err, result) => {
+      resolve(err ? { ok: false, error: 'deliveryTimedOut' } : result);
+    });
+  });
+}
+
+/**
+ * Replace the text of one of our recent messages. The server checks the edit window.
+ */
+export function sendEdit(
+  socket: SocketInstance | null,
+  edit: { id: string; text: string },
+  onAck: (result: MessageAck) => void
+): void {
+  const text = edit.text.trim();
+  if (!socket?.connected || !text) {
+    onAck({ ok: false, error: 'notConnected' });
+    return;
+  }
+  socket.timeout(MESSAGE_ACK_TIMEOUT_MS).emit('edit', { id: edit.id, text }, (err, result) => {
+    onAck(err ? { ok: false, error: 'editTimedOut' } : result);
+  });
+}
+
+/**
+ * Retract one of our recent messages. The server checks the edit window.
  */
-export function sendMessage(socket: SocketInstance | null, text: string): void {
-  if (socket?.connected && text.trim()) {
-    socket.emit('message', { text: text.trim() });
+export function sendUnsend(socket: SocketInstance | null, id: string, onAck: (result: MessageAck) => void): void {
+  if (!socket?.connected) {
+    onAck({ ok: false, error: 'notConnected' });
+    return;
+  }
+  socket.timeout(MESSAGE_ACK_TIMEOUT_MS).emit('unsend', { id }, (err, result) => {
+    onAck(err ? { ok: false, error: 'unsendTimedOut' } : result);
+  });
+}
+
+/**
+ * Tell the partner which of their messages we've seen
+ */
+export function sendReadReceipt(socket: SocketInstance | null, ids: string[]): void {
+  if (socket?.connected && ids.length > 0) {
+    socket.emit('read', { ids });
   }
 }
 
@@ -125,18 +404,18 @@ export function sendTyping(socket: SocketInstance | null, isTyping: boolean): vo
 /**
  * Send WebRTC signaling message
  */
-export function sendSignal(
-  socket: SocketInstance | null, 
-  payload: Omit<SignalingMessage, 'sender' | 'target'>,
-  userId: string | null,
-  partnerId: string | null
-): void {
-  if (socket?.connected && userId && partnerId) {
-    socket.emit('signal', {
-      ...payload,
-      sender: userId,
-      target: partnerId,
-    });
+export function sendSignal(socket: SocketInstance | null, signal: OutgoingSignal): void {
+  if (socket?.connected) {
+    socket.emit('signal', signal);
+  }
+}
+
+/**
+ * Report a peer-to-peer message our filters flagged, since the server never saw it
+ */
+export function sendPeerFlag(socket: SocketInstance | null, flag: PeerFlag): void {
+  if (socket?.connected) {
+    socket.emit('peer-flag', { reasons: flag.reasons, excerpt: flag.excerpt.slice(0, MAX_PEER_FLAG_EXCERPT) });
   }
 }
 
@@ -147,4 +426,13 @@ export function leaveChat(socket: SocketInstance | null): void {
   if (socket?.connected) {
     socket.emit('leave');
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Block the current partner; the server ends the chat and won't pair us again
+ */
+export function blockPartner(socket: SocketInstance | null): void {
+  if (socket?.connected) {
+    socket.emit('block');
+  }
+}
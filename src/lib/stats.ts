@@ -0,0 +1,38 @@
+import { ServerStats } from '@/types/chat';
+
+type StatsListener = (stats: ServerStats) => void;
+
+const listeners = new Set<StatsListener>();
+let latestStats: ServerStats | null = null;
+
+/**
+ * Shares stats pushed over the chat socket with components outside the chat
+ * (e.g. the header), so they don't need their own connection.
+ */
+export function publishStats(stats: ServerStats): void {
+  latestStats = stats;
+  listeners.forEach(listener => listener(stats));
+}
+
+export function subscribeStats(listener: StatsListener): () => void {
+  listeners.add(listener);
+  if (latestStats) listener(latestStats);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getLatestStats(): ServerStats | null {
+  return latestStats;
+}
+
+/**
+ * Fetch stats over HTTP for clients that aren't connected to the socket server.
+ */
+export async function fetchStats(): Promise<ServerStats> {
+  const response = await fetch(`${process.env.NEXT_PUBLIC_SOCKET_URL ?? ''}/stats`);
+  if (!response.ok) {
+    throw new Error(`Stats request failed: ${response.status}`);
+  }
+  return response.json();
+}
@@ -0,0 +1,151 @@
+import { format } from 'date-fns';
+import { Message } from '@/types/chat';
+import { formatFileSize } from '@/lib/attachments';
+import { toPlainText } from '@/lib/richText';
+import { MessageKey, t } from '@/lib/i18n';
+
+export type TranscriptFormat = 'txt' | 'md' | 'json';
+
+// Bump when the JSON shape changes; parseTranscript only accepts versions it knows
+export const TRANSCRIPT_VERSION = 1;
+
+export interface TranscriptEntry {
+  id: string;
+  sender: Message['sender'];
+  timestamp: number; // ms since epoch
+  text: string;
+  edited?: boolean;
+  attachment?: { name: string; mime: string; size: number }; // The file itself isn't exported
+}
+
+export interface Transcript {
+  format: 'whimsy-transcript';
+  version: typeof TRANSCRIPT_VERSION;
+  exportedAt: number;
+  messages: TranscriptEntry[];
+}
+
+export interface TranscriptOptions {
+  includeSystem?: boolean; // Default true
+}
+
+const SENDER_LABELS: Record<Message['sender'], MessageKey> = {
+  me: 'sender.me',
+  stranger: 'sender.stranger',
+  system: 'sender.system',
+};
+
+const MIME_TYPES: Record<TranscriptFormat, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  json: 'application/json',
+};
+
+export function createTranscript(messages: Message[], { includeSystem = true }: TranscriptOptions = {}): Transcript {
+  return {
+    format: 'whimsy-transcript',
+    version: TRANSCRIPT_VERSION,
+    exportedAt: Date.now(),
+    messages: messages
+      .filter(msg => (includeSystem || !msg.system) && !msg.removed) // Unsent messages are gone for good
+      .map(msg => ({
+        id: msg.id,
+        sender: msg.sender,
+        timestamp: msg.timestamp,
+        text: msg.notice ? t(msg.notice.key, msg.notice.params) : msg.text, // System notices in the current language
+        ...(msg.edited && { edited: true }),
+        ...(msg.attachment && {
+          attachment: { name: msg.attachment.name, mime: msg.attachment.mime, size: msg.attachment.size },
+        }),
+      })),
+  };
+}
+
+// Plain-text exports drop the chat formatting markers; Markdown keeps the text as typed
+const entryBody = (entry: TranscriptEntry, plain = false) => {
+  if (entry.attachment) return `[${t('transcript.file')}: ${entry.attachment.name}, ${formatFileSize(entry.attachment.size)}]`;
+  const text = plain ? toPlainText(entry.text) : entry.text;
+  return entry.edited ? `${text} ${t('message.edited')}` : text;
+};
+
+// Enough to keep chat text from turning into headings, links or emphasis
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_{}[\]()#+\-.!<>|~])/g, '\\$1');
+
+const formatTimestamp = (timestamp: number) => format(new Date(timestamp), 'yyyy-MM-dd HH:mm:ss');
+
+export function formatTranscript(transcript: Transcript, kind: TranscriptFormat): string {
+  switch (kind) {
+    case 'json':
+      return JSON.stringify(transcript, null, 2);
+    case 'txt':
+      return [
+        t('transcript.exportedLine', { date: formatTimestamp(transcript.exportedAt) }),
+        '',
+        ...transcript.messages.map(entry => entry.sender === 'system'
+          ? `[${formatTimestamp(entry.timestamp)}] * ${entryBody(entry)}`
+          : `[${formatTimestamp(entry.timestamp)}] ${t(SENDER_LABELS[entry.sender])}: ${entryBody(entry, true)}`),
+      ].join('\n') + '\n';
+    case 'md':
+      return [
+        `# ${t('transcript.heading')}`,
+        '',
+        `_${t('transcript.exported', { date: formatTimestamp(transcript.exportedAt) })}_`,
+        '',
+        ...transcript.messages.map(entry => entry.sender === 'system'
+          ? `- _${formatTimestamp(entry.timestamp)} · ${escapeMarkdown(entryBody(entry))}_`
+          : `- **${t(SENDER_LABELS[entry.sender])}** (${formatTimestamp(entry.timestamp)}): ${escapeMarkdown(entryBody(entry))}`),
+      ].join('\n') + '\n';
+  }
+}
+
+const isEntry = (value: unknown): value is TranscriptEntry => {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  if (typeof entry.id !== 'string' || typeof entry.text !== 'string' || typeof entry.timestamp !== 'number') return false;
+  if (entry.sender !== 'me' && entry.sender !== 'stranger' && entry.sender !== 'system') return false;
+  if (entry.edited !== undefined && typeof entry.edited !== 'boolean') return false;
+  if (entry.attachment === undefined) return true;
+  const attachment = entry.attachment as Record<string, unknown> | null;
+  return typeof attachment === 'object' && attachment !== null
+    && typeof attachment.name === 'string' && typeof attachment.mime === 'string' && typeof attachment.size === 'number';
+};
+
+/**
+ * Reads a JSON transcript back in. Returns null for anything that isn't a
+ * transcript of a version we understand.
+ */
+export function parseTranscript(json: string): Transcript | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (typeof value !== 'object' || value === null) return null;
+  const transcript = value as Record<string, unknown>;
+  if (transcript.format !== 'whimsy-transcript' || transcript.version !== TRANSCRIPT_VERSION) return null;
+  if (typeof transcript.exportedAt !== 'number' || !Array.isArray(transcript.messages)) return null;
+  if (!transcript.messages.every(isEntry)) return null;
+  return {
+    format: 'whimsy-transcript',
+    version: TRANSCRIPT_VERSION,
+    exportedAt: transcript.exportedAt,
+    messages: transcript.messages,
+  };
+}
+
+/**
+ * Saves the transcript as a file through a temporary download link.
+ */
+export function downloadTranscript(messages: Message[], kind: TranscriptFormat, options?: TranscriptOptions): void {
+  const transcript = createTranscript(messages, options);
+  const blob = new Blob([formatTranscript(transcript, kind)], { type: `${MIME_TYPES[kind]};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `whimsy-chat-${format(new Date(transcript.exportedAt), 'yyyyMMdd-HHmm')}.${kind}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,275 @@
+// The source catalog: every key the UI uses lives here first, and other locales
+// are type-checked against it. Placeholders look like {name}.
+const en = {
+  'app.tagline': 'Random Chat',
+  'app.language': 'Language',
+
+  'nav.history': 'History',
+  'nav.report': 'Report User',
+  'nav.backToChat': 'Back to Chat',
+
+  'stats.loading': 'Loading...',
+  'stats.online': '{count} online',
+  'stats.onlineTitle': 'Users online',
+  'stats.searching': '{count} searching',
+  'stats.searchingTitle': 'Looking for a partner',
+  'stats.chatting': '{count} chatting',
+  'stats.chattingTitle': 'Currently in a chat',
+
+  'status.idle': 'Idle',
+  'status.connecting': 'Connecting...',
+  'status.waiting': 'Searching...',
+  'status.chatting': 'Connected',
+  'status.disconnected': 'Disconnected',
+  'status.error': 'Error',
+  'status.unknown': 'Unknown',
+  'status.reconnecting': 'Reconnecting...',
+  'status.partnerReconnecting': 'Stranger reconnecting…',
+
+  'actions.startChatting': 'Start Chatting',
+  'actions.next': 'Next',
+  'actions.nextTitle': 'Find new partner',
+  'actions.startVideo': 'Start Video',
+  'actions.startVideoTitle': 'Start video call',
+  'actions.videoTextOnlyTitle': 'Video is off in text-only chats',
+  'actions.stopVideo': 'Stop Video',
+  'actions.stopVideoTitle': 'Stop video call',
+  'actions.shareScreen': 'Share Screen',
+  'actions.shareScreenTitle': 'Share your screen',
+  'actions.stopSharing': 'Stop Sharing',
+  'actions.stopSharingTitle': 'Stop sharing your screen',
+  'actions.block': 'Block',
+  'actions.blockTitle': 'Block this stranger and find someone new',
+  'actions.end': 'End',
+  'actions.endTitle': 'End current chat',
+
+  'welcome.title': 'Welcome to WhimsyChat',
+  'welcome.hint': 'Click "Start Chatting" to connect with a random stranger.',
+  'welcome.ended': 'Chat ended. Start a new one?',
+  'welcome.error': 'Connection error. Please try starting again.',
+  'welcome.searching': 'Searching for partner...',
+
+  'input.placeholder.chatting': 'Send a message...',
+  'input.placeholder.waiting': 'Waiting for a partner...',
+  'input.placeholder.connecting': 'Connecting...',
+  'input.placeholder.idle': "Click 'Start Chatting' above",
+  'input.label': 'Chat message input',
+  'input.attach': 'Attach a file',
+  'input.send': 'Send message',
+  'input.saveEdit': 'Save edit',
+  'input.editing': 'Editing message',
+  'input.cancel': 'Cancel',
+
+  'mode.label': 'Mode',
+  'mode.text': 'Text',
+  'mode.textTitle': 'Chat by text only, without a camera',
+  'mode.video': 'Video',
+  'mode.videoTitle': 'Start a video call as soon as you are matched',
+
+  'interests.placeholder': 'Add tags like chess, music... (optional)',
+  'interests.placeholderMore': 'Add another...',
+  'interests.add': 'Add interest tag',
+  'interests.remove': 'Remove interest {tag}',
+
+  'message.sent': 'Sent',
+  'message.delivered': 'Delivered',
+  'message.read': 'Read',
+  'message.edited': '(edited)',
+  'message.removedByMe': 'You removed this message',
+  'message.removed': 'Message removed',
+  'message.notDelivered': 'Not delivered',
+  'message.retry': 'Retry',
+  'message.react': 'Add reaction',
+  'message.reactMenu': 'React to message',
+  'message.reactWith': 'React with {emoji}',
+  'message.reactedByMe': '{emoji}, you reacted',
+  'message.edit': 'Edit message',
+  'message.unsend': 'Unsend message',
+
+  'attachment.reveal': 'Tap to reveal',
+  'attachment.revealLabel': 'Reveal image {name}',
+  'attachment.download': 'Download {name}',
+
+  'video.waitingForPartnerVideo': "Waiting for partner's video...",
+  'video.partnerVideoOff': "Partner's Video Off",
+  'video.waitingForPartner': 'Waiting for Partner',
+  'video.offline': 'Offline',
+  'video.partnerCameraOff': 'Stranger turned off their camera',
+  'video.partnerMuted': 'Stranger is muted',
+  'video.reconnecting': 'Reconnecting video…',
+  'video.starting': 'Starting your video...',
+  'video.yourVideoOff': 'Your Video Off',
+  'video.cameraOff': 'Your camera is off',
+  'video.muted': 'You are muted',
+  'video.mute': 'Mute microphone',
+  'video.unmute': 'Unmute microphone',
+  'video.cameraTurnOff': 'Turn camera off',
+  'video.cameraTurnOn': 'Turn camera on',
+  'video.active': 'Video call active',
+  'video.available': 'Video available',
+  'video.unavailable': 'Video offline',
+
+  'devices.microphone': 'Microphone',
+  'devices.camera': 'Camera',
+  'devices.numbered': '{kind} {number}',
+  'devices.default': 'Default',
+
+  'quality.good': 'Good connection',
+  'quality.fair': 'Fair connection',
+  'quality.poor': 'Poor connection',
+  'quality.roundTrip': 'Round trip',
+  'quality.packetLoss': 'Packet loss',
+  'quality.jitter': 'Jitter',
+  'quality.receiving': 'Receiving',
+  'quality.sending': 'Sending',
+  'quality.resolution': 'Resolution',
+  'quality.route': 'Route',
+  'quality.relayed': 'Relayed (TURN)',
+  'quality.direct': 'Direct',
+
+  'export.button': 'Export',
+  'export.title': 'Save this conversation',
+  'export.txt': 'Plain text (.txt)',
+  'export.md': 'Markdown (.md)',
+  'export.json': 'JSON (.json)',
+  'export.includeSystem': 'Include system messages',
+
+  'transcript.heading': 'Whimsy chat transcript',
+  'transcript.exported': 'Exported {date}',
+  'transcript.exportedLine': 'Whimsy chat transcript, exported {date}',
+  'transcript.file': 'file',
+
+  'sender.me': 'You',
+  'sender.stranger': 'Stranger',
+  'sender.system': 'System',
+
+  'system.connecting': 'Connecting...',
+  'system.lookingForPartner': 'Looking for someone to chat with...',
+  'system.strangerConnected': 'A stranger has connected!',
+  'system.sharedInterests': 'You both like: {interests}',
+  'system.resumed': 'Reconnected to the stranger.',
+  'system.resumeFailed': 'Your previous chat could not be restored.',
+  'system.partnerReconnecting': 'Stranger is reconnecting…',
+  'system.partnerBack': 'The stranger is back.',
+  'system.partnerDisconnected': 'The stranger has disconnected.',
+  'system.connectionLost': 'Connection lost. Reconnecting…',
+  'system.youDisconnected': 'You have disconnected.',
+  'system.blocked': "You blocked this stranger. You won't be matched with them again.",
+  'system.findingNewPartner': 'Finding a new chat partner...',
+  'system.videoStarting': 'Attempting to start video call...',
+  'system.videoEnded': 'Video call ended.',
+  'system.videoError': 'Video Error: {message}',
+
+  'toast.connectionLost': 'Connection Lost',
+  'toast.couldNotReconnect': 'Could not reconnect. Please start a new chat.',
+  'toast.disconnectedReason': 'Disconnected: {reason}. Please reconnect.',
+  'toast.disconnected': 'Disconnected',
+  'toast.floodDisconnected': 'You were disconnected for sending too many messages.',
+  'toast.slowDown': 'Slow down',
+  'toast.tooFast': "You're sending too fast. Some messages were not delivered.",
+  'toast.serverError': 'Server Error',
+  'toast.connectionFailed': 'Connection Failed',
+  'toast.couldNotConnect': 'Could not connect: {message}. Please try again.',
+  'toast.initError': 'Initialization Error',
+  'toast.initErrorDescription': 'Failed to setup connection.',
+  'toast.videoError': 'Video Error',
+  'toast.videoStreamFailed': 'Could not start video stream.',
+  'toast.videoDisabled': 'Video Call Disabled',
+  'toast.videoNeedsPartner': 'You must be connected to a partner to start video.',
+  'toast.videoLost': 'Video connection lost',
+  'toast.videoLostDescription': "Couldn't reconnect the video call.",
+  'toast.videoCannotStart': 'Cannot Start Video',
+  'toast.videoMissingIds': 'User or partner ID missing.',
+  'toast.partnerEndedVideo': 'Partner ended the video call.',
+  'toast.signalingError': 'WebRTC Signaling Error',
+  'toast.signalingErrorDescription': 'Failed to process signal ({type}): {message}',
+  'toast.switchDeviceFailed': "Couldn't switch device",
+  'toast.screenShareUnsupported': "Screen sharing isn't supported in this browser.",
+  'toast.screenShareFailed': "Couldn't share screen",
+  'toast.notConnected': 'Not connected',
+  'toast.resendOnlyToPartner': 'You can only resend messages to your current partner.',
+  'toast.cantSendFile': "Can't send file",
+  'toast.editFailed': "Couldn't edit message",
+  'toast.unsendFailed': "Couldn't unsend message",
+
+  'errors.notConnectedToPartner': 'You are not connected to a partner.',
+  'errors.notConnected': 'Not connected.',
+  'errors.deliveryTimedOut': 'Delivery timed out.',
+  'errors.editTimedOut': 'Edit timed out.',
+  'errors.unsendTimedOut': 'Unsend timed out.',
+  'errors.transferInterrupted': 'Transfer interrupted.',
+  'errors.transferTimedOut': 'Transfer timed out.',
+  'errors.fileNotIntact': "The file didn't arrive intact.",
+  'errors.fileUnreadable': 'Could not read the file.',
+  'errors.tooFast': 'You are sending too fast.',
+  'errors.invalidMessageId': 'Invalid message id.',
+  'errors.messageLength': 'Messages must be between 1 and {max} characters.',
+  'errors.messageNotFound': "That message couldn't be found.",
+  'errors.messageLocked': 'That message can no longer be changed.',
+  'errors.editWindowPassed': 'The time to change that message has passed.',
+  'errors.blockedWords': 'Your message contains blocked words.',
+  'errors.linksTooSoon': 'Links are allowed after chatting for a bit. Try again in {seconds}s.',
+  'errors.contactInfo': 'For your safety, phone numbers and emails cannot be shared.',
+  'errors.fileTypeNotAllowed': "That file type can't be shared.",
+  'errors.fileEmpty': 'The file is empty.',
+  'errors.fileTooLarge': 'Files can be at most {maxMb} MB.',
+  'errors.invalidTransfer': 'Invalid file transfer.',
+  'errors.invalidChunk': 'Invalid file chunk.',
+  'errors.tooManyTransfers': 'Wait for your other files to finish sending.',
+  'errors.matchmakingFailed': 'Matchmaking issue, please try again.',
+  'errors.matchmakingUnavailable': 'Matchmaking unavailable, please try again later.',
+  'errors.waitingListFailed': 'Could not join waiting list, please try again.',
+  'errors.tooManyConnections': 'Too many connections from your network.',
+  'errors.invalidSignal': 'The video call sent a malformed signal.',
+  'errors.unknownSignalType': 'The video call sent an unknown kind of signal.',
+  'errors.videoUnavailable': 'Video is not available in text-only chats.',
+  'errors.invalidReaction': 'Invalid reaction.',
+  'errors.unknown': 'Something went wrong.',
+
+  'history.title': 'Chat History',
+  'history.intro': 'Finished conversations are kept in this browser only. They are never uploaded.',
+  'history.save': 'Save conversations',
+  'history.deleteAfter': 'Delete after',
+  'history.forever': 'Forever',
+  'history.oneDay': '1 day',
+  'history.days': '{count} days',
+  'history.deleteAll': 'Delete all',
+  'history.confirmDeleteAll': 'Delete every saved conversation? This cannot be undone.',
+  'history.search': 'Search messages...',
+  'history.searchLabel': 'Search conversations',
+  'history.loading': 'Loading…',
+  'history.empty': 'No saved conversations yet.',
+  'history.noMatches': 'No conversations match your search.',
+  'history.oneMessage': '1 message',
+  'history.messages': '{count} messages',
+  'history.delete': 'Delete conversation',
+  'history.unavailable': 'History unavailable',
+  'history.storageBlocked': 'Your browser is blocking local storage.',
+  'history.deleteFailed': 'Could not delete the conversation.',
+  'history.clearFailed': 'Could not clear history.',
+
+  'report.title': 'Report User',
+  'report.roomId': 'Room ID (Optional)',
+  'report.roomIdPlaceholder': 'Enter the Room ID if known',
+  'report.userId': 'Reported User ID (Optional)',
+  'report.userIdPlaceholder': 'Enter the User ID if known',
+  'report.reason': 'Reason for Report',
+  'report.reasonPlaceholder': 'Describe the issue...',
+  'report.submit': 'Submit Report',
+  'report.submitting': 'Submitting...',
+  'report.reasonRequired': 'Please provide a reason for the report.',
+  'report.submitted': 'Report submitted successfully.',
+  'report.failed': 'Report submission failed',
+  'report.failedDefault': 'Failed to submit report.',
+
+  'leave.title': 'You are leaving Whimsy',
+  'leave.warning': 'This link was sent by a stranger. Only continue if you trust where it goes.',
+  'leave.invalid': "This link can't be opened.",
+  'leave.back': 'Back to Whimsy',
+  'leave.continue': 'Continue',
+};
+
+export type MessageKey = keyof typeof en;
+export type Catalog = Record<MessageKey, string>;
+
+export default en;
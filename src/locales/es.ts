@@ -0,0 +1,272 @@
+import type { Catalog } from './en';
+
+const es: Catalog = {
+  'app.tagline': 'Chat aleatorio',
+  'app.language': 'Idioma',
+
+  'nav.history': 'Historial',
+  'nav.report': 'Denunciar usuario',
+  'nav.backToChat': 'Volver al chat',
+
+  'stats.loading': 'Cargando...',
+  'stats.online': '{count} en línea',
+  'stats.onlineTitle': 'Usuarios en línea',
+  'stats.searching': '{count} buscando',
+  'stats.searchingTitle': 'Buscando pareja de chat',
+  'stats.chatting': '{count} chateando',
+  'stats.chattingTitle': 'Actualmente en un chat',
+
+  'status.idle': 'Inactivo',
+  'status.connecting': 'Conectando...',
+  'status.waiting': 'Buscando...',
+  'status.chatting': 'Conectado',
+  'status.disconnected': 'Desconectado',
+  'status.error': 'Error',
+  'status.unknown': 'Desconocido',
+  'status.reconnecting': 'Reconectando...',
+  'status.partnerReconnecting': 'El desconocido se está reconectando…',
+
+  'actions.startChatting': 'Empezar a chatear',
+  'actions.next': 'Siguiente',
+  'actions.nextTitle': 'Buscar otra persona',
+  'actions.startVideo': 'Iniciar vídeo',
+  'actions.startVideoTitle': 'Iniciar videollamada',
+  'actions.videoTextOnlyTitle': 'El vídeo está desactivado en los chats de solo texto',
+  'actions.stopVideo': 'Detener vídeo',
+  'actions.stopVideoTitle': 'Detener videollamada',
+  'actions.shareScreen': 'Compartir pantalla',
+  'actions.shareScreenTitle': 'Compartir tu pantalla',
+  'actions.stopSharing': 'Dejar de compartir',
+  'actions.stopSharingTitle': 'Dejar de compartir tu pantalla',
+  'actions.block': 'Bloquear',
+  'actions.blockTitle': 'Bloquear a este desconocido y buscar a otra persona',
+  'actions.end': 'Terminar',
+  'actions.endTitle': 'Terminar el chat actual',
+
+  'welcome.title': 'Bienvenido a WhimsyChat',
+  'welcome.hint': 'Pulsa "Empezar a chatear" para conectar con un desconocido al azar.',
+  'welcome.ended': 'Chat terminado. ¿Empezar otro?',
+  'welcome.error': 'Error de conexión. Vuelve a intentarlo.',
+  'welcome.searching': 'Buscando a alguien...',
+
+  'input.placeholder.chatting': 'Escribe un mensaje...',
+  'input.placeholder.waiting': 'Esperando a alguien...',
+  'input.placeholder.connecting': 'Conectando...',
+  'input.placeholder.idle': "Pulsa 'Empezar a chatear' arriba",
+  'input.label': 'Campo de mensaje',
+  'input.attach': 'Adjuntar un archivo',
+  'input.send': 'Enviar mensaje',
+  'input.saveEdit': 'Guardar cambios',
+  'input.editing': 'Editando mensaje',
+  'input.cancel': 'Cancelar',
+
+  'mode.label': 'Modo',
+  'mode.text': 'Texto',
+  'mode.textTitle': 'Chatear solo por texto, sin cámara',
+  'mode.video': 'Vídeo',
+  'mode.videoTitle': 'Iniciar una videollamada en cuanto te emparejen',
+
+  'interests.placeholder': 'Añade etiquetas como ajedrez, música... (opcional)',
+  'interests.placeholderMore': 'Añadir otra...',
+  'interests.add': 'Añadir etiqueta de interés',
+  'interests.remove': 'Quitar interés {tag}',
+
+  'message.sent': 'Enviado',
+  'message.delivered': 'Entregado',
+  'message.read': 'Leído',
+  'message.edited': '(editado)',
+  'message.removedByMe': 'Eliminaste este mensaje',
+  'message.removed': 'Mensaje eliminado',
+  'message.notDelivered': 'No entregado',
+  'message.retry': 'Reintentar',
+  'message.react': 'Reaccionar',
+  'message.reactMenu': 'Reaccionar al mensaje',
+  'message.reactWith': 'Reaccionar con {emoji}',
+  'message.reactedByMe': '{emoji}, reaccionaste',
+  'message.edit': 'Editar mensaje',
+  'message.unsend': 'Anular envío',
+
+  'attachment.reveal': 'Toca para ver',
+  'attachment.revealLabel': 'Mostrar imagen {name}',
+  'attachment.download': 'Descargar {name}',
+
+  'video.waitingForPartnerVideo': 'Esperando el vídeo del desconocido...',
+  'video.partnerVideoOff': 'Vídeo del desconocido apagado',
+  'video.waitingForPartner': 'Esperando a alguien',
+  'video.offline': 'Sin conexión',
+  'video.partnerCameraOff': 'El desconocido apagó su cámara',
+  'video.partnerMuted': 'El desconocido está silenciado',
+  'video.reconnecting': 'Reconectando el vídeo…',
+  'video.starting': 'Iniciando tu vídeo...',
+  'video.yourVideoOff': 'Tu vídeo está apagado',
+  'video.cameraOff': 'Tu cámara está apagada',
+  'video.muted': 'Estás silenciado',
+  'video.mute': 'Silenciar micrófono',
+  'video.unmute': 'Activar micrófono',
+  'video.cameraTurnOff': 'Apagar cámara',
+  'video.cameraTurnOn': 'Encender cámara',
+  'video.active': 'Videollamada activa',
+  'video.available': 'Vídeo disponible',
+  'video.unavailable': 'Vídeo no disponible',
+
+  'devices.microphone': 'Micrófono',
+  'devices.camera': 'Cámara',
+  'devices.numbered': '{kind} {number}',
+  'devices.default': 'Predeterminado',
+
+  'quality.good': 'Buena conexión',
+  'quality.fair': 'Conexión regular',
+  'quality.poor': 'Mala conexión',
+  'quality.roundTrip': 'Ida y vuelta',
+  'quality.packetLoss': 'Pérdida de paquetes',
+  'quality.jitter': 'Fluctuación',
+  'quality.receiving': 'Recibiendo',
+  'quality.sending': 'Enviando',
+  'quality.resolution': 'Resolución',
+  'quality.route': 'Ruta',
+  'quality.relayed': 'Retransmitida (TURN)',
+  'quality.direct': 'Directa',
+
+  'export.button': 'Exportar',
+  'export.title': 'Guardar esta conversación',
+  'export.txt': 'Texto plano (.txt)',
+  'export.md': 'Markdown (.md)',
+  'export.json': 'JSON (.json)',
+  'export.includeSystem': 'Incluir mensajes del sistema',
+
+  'transcript.heading': 'Transcripción de chat de Whimsy',
+  'transcript.exported': 'Exportada el {date}',
+  'transcript.exportedLine': 'Transcripción de chat de Whimsy, exportada el {date}',
+  'transcript.file': 'archivo',
+
+  'sender.me': 'Tú',
+  'sender.stranger': 'Desconocido',
+  'sender.system': 'Sistema',
+
+  'system.connecting': 'Conectando...',
+  'system.lookingForPartner': 'Buscando a alguien con quien chatear...',
+  'system.strangerConnected': '¡Un desconocido se ha conectado!',
+  'system.sharedInterests': 'A los dos os gusta: {interests}',
+  'system.resumed': 'Reconectado con el desconocido.',
+  'system.resumeFailed': 'No se pudo recuperar tu chat anterior.',
+  'system.partnerReconnecting': 'El desconocido se está reconectando…',
+  'system.partnerBack': 'El desconocido ha vuelto.',
+  'system.partnerDisconnected': 'El desconocido se ha desconectado.',
+  'system.connectionLost': 'Conexión perdida. Reconectando…',
+  'system.youDisconnected': 'Te has desconectado.',
+  'system.blocked': 'Has bloqueado a este desconocido. No volveréis a coincidir.',
+  'system.findingNewPartner': 'Buscando otra persona...',
+  'system.videoStarting': 'Intentando iniciar la videollamada...',
+  'system.videoEnded': 'Videollamada terminada.',
+  'system.videoError': 'Error de vídeo: {message}',
+
+  'toast.connectionLost': 'Conexión perdida',
+  'toast.couldNotReconnect': 'No se pudo reconectar. Empieza un chat nuevo.',
+  'toast.disconnectedReason': 'Desconectado: {reason}. Vuelve a conectarte.',
+  'toast.disconnected': 'Desconectado',
+  'toast.floodDisconnected': 'Te hemos desconectado por enviar demasiados mensajes.',
+  'toast.slowDown': 'Más despacio',
+  'toast.tooFast': 'Estás enviando demasiado rápido. Algunos mensajes no se entregaron.',
+  'toast.serverError': 'Error del servidor',
+  'toast.connectionFailed': 'Fallo de conexión',
+  'toast.couldNotConnect': 'No se pudo conectar: {message}. Inténtalo de nuevo.',
+  'toast.initError': 'Error de inicio',
+  'toast.initErrorDescription': 'No se pudo preparar la conexión.',
+  'toast.videoError': 'Error de vídeo',
+  'toast.videoStreamFailed': 'No se pudo iniciar el vídeo.',
+  'toast.videoDisabled': 'Videollamada no disponible',
+  'toast.videoNeedsPartner': 'Tienes que estar conectado con alguien para iniciar el vídeo.',
+  'toast.videoLost': 'Se perdió la conexión de vídeo',
+  'toast.videoLostDescription': 'No se pudo reconectar la videollamada.',
+  'toast.videoCannotStart': 'No se puede iniciar el vídeo',
+  'toast.videoMissingIds': 'Falta el ID del usuario o del desconocido.',
+  'toast.partnerEndedVideo': 'El desconocido terminó la videollamada.',
+  'toast.signalingError': 'Error de señalización WebRTC',
+  'toast.signalingErrorDescription': 'No se pudo procesar la señal ({type}): {message}',
+  'toast.switchDeviceFailed': 'No se pudo cambiar de dispositivo',
+  'toast.screenShareUnsupported': 'Este navegador no permite compartir pantalla.',
+  'toast.screenShareFailed': 'No se pudo compartir la pantalla',
+  'toast.notConnected': 'Sin conexión',
+  'toast.resendOnlyToPartner': 'Solo puedes reenviar mensajes a tu compañero de chat actual.',
+  'toast.cantSendFile': 'No se puede enviar el archivo',
+  'toast.editFailed': 'No se pudo editar el mensaje',
+  'toast.unsendFailed': 'No se pudo anular el envío',
+
+  'errors.notConnectedToPartner': 'No estás conectado con nadie.',
+  'errors.notConnected': 'Sin conexión.',
+  'errors.deliveryTimedOut': 'La entrega tardó demasiado.',
+  'errors.editTimedOut': 'La edición tardó demasiado.',
+  'errors.unsendTimedOut': 'La anulación tardó demasiado.',
+  'errors.transferInterrupted': 'Transferencia interrumpida.',
+  'errors.transferTimedOut': 'La transferencia tardó demasiado.',
+  'errors.fileNotIntact': 'El archivo no llegó completo.',
+  'errors.fileUnreadable': 'No se pudo leer el archivo.',
+  'errors.tooFast': 'Estás enviando demasiado rápido.',
+  'errors.invalidMessageId': 'Identificador de mensaje no válido.',
+  'errors.messageLength': 'Los mensajes deben tener entre 1 y {max} caracteres.',
+  'errors.messageNotFound': 'No se encontró ese mensaje.',
+  'errors.messageLocked': 'Ese mensaje ya no se puede cambiar.',
+  'errors.editWindowPassed': 'Ya pasó el tiempo para cambiar ese mensaje.',
+  'errors.blockedWords': 'Tu mensaje contiene palabras bloqueadas.',
+  'errors.linksTooSoon': 'Los enlaces se permiten después de charlar un rato. Inténtalo de nuevo en {seconds} s.',
+  'errors.contactInfo': 'Por tu seguridad, no se pueden compartir números de teléfono ni correos electrónicos.',
+  'errors.fileTypeNotAllowed': 'Ese tipo de archivo no se puede compartir.',
+  'errors.fileEmpty': 'El archivo está vacío.',
+  'errors.fileTooLarge': 'Los archivos pueden ocupar como máximo {maxMb} MB.',
+  'errors.invalidTransfer': 'Transferencia de archivo no válida.',
+  'errors.invalidChunk': 'Fragmento de archivo no válido.',
+  'errors.tooManyTransfers': 'Espera a que terminen de enviarse tus otros archivos.',
+  'errors.matchmakingFailed': 'Hubo un problema al buscar pareja. Inténtalo de nuevo.',
+  'errors.matchmakingUnavailable': 'La búsqueda de pareja no está disponible. Inténtalo más tarde.',
+  'errors.waitingListFailed': 'No se pudo entrar en la lista de espera. Inténtalo de nuevo.',
+  'errors.tooManyConnections': 'Demasiadas conexiones desde tu red.',
+  'errors.invalidSignal': 'La videollamada envió una señal con formato incorrecto.',
+  'errors.unknownSignalType': 'La videollamada envió un tipo de señal desconocido.',
+  'errors.videoUnavailable': 'El vídeo no está disponible en los chats solo de texto.',
+  'errors.invalidReaction': 'Reacción no válida.',
+  'errors.unknown': 'Algo salió mal.',
+
+  'history.title': 'Historial de chats',
+  'history.intro': 'Las conversaciones terminadas solo se guardan en este navegador. Nunca se suben.',
+  'history.save': 'Guardar conversaciones',
+  'history.deleteAfter': 'Borrar después de',
+  'history.forever': 'Nunca',
+  'history.oneDay': '1 día',
+  'history.days': '{count} días',
+  'history.deleteAll': 'Borrar todo',
+  'history.confirmDeleteAll': '¿Borrar todas las conversaciones guardadas? No se puede deshacer.',
+  'history.search': 'Buscar mensajes...',
+  'history.searchLabel': 'Buscar conversaciones',
+  'history.loading': 'Cargando…',
+  'history.empty': 'Todavía no hay conversaciones guardadas.',
+  'history.noMatches': 'Ninguna conversación coincide con tu búsqueda.',
+  'history.oneMessage': '1 mensaje',
+  'history.messages': '{count} mensajes',
+  'history.delete': 'Borrar conversación',
+  'history.unavailable': 'Historial no disponible',
+  'history.storageBlocked': 'Tu navegador está bloqueando el almacenamiento local.',
+  'history.deleteFailed': 'No se pudo borrar la conversación.',
+  'history.clearFailed': 'No se pudo borrar el historial.',
+
+  'report.title': 'Denunciar usuario',
+  'report.roomId': 'ID de la sala (opcional)',
+  'report.roomIdPlaceholder': 'Escribe el ID de la sala si lo conoces',
+  'report.userId': 'ID del usuario denunciado (opcional)',
+  'report.userIdPlaceholder': 'Escribe el ID del usuario si lo conoces',
+  'report.reason': 'Motivo de la denuncia',
+  'report.reasonPlaceholder': 'Describe el problema...',
+  'report.submit': 'Enviar denuncia',
+  'report.submitting': 'Enviando...',
+  'report.reasonRequired': 'Indica el motivo de la denuncia.',
+  'report.submitted': 'Denuncia enviada correctamente.',
+  'report.failed': 'No se pudo enviar la denuncia',
+  'report.failedDefault': 'No se pudo enviar la denuncia.',
+
+  'leave.title': 'Estás saliendo de Whimsy',
+  'leave.warning': 'Este enlace lo envió un desconocido. Continúa solo si confías en su destino.',
+  'leave.invalid': 'Este enlace no se puede abrir.',
+  'leave.back': 'Volver a Whimsy',
+  'leave.continue': 'Continuar',
+};
+
+export default es;
@@ -1,16 +1,133 @@
+import type { ErrorCode, MessageKey, TranslationParams } from '@/lib/i18n';
+
+// Chosen before connecting; text and video users are matched from separate queues
+export type ChatMode = "text" | "video";
+
+// Delivery state of messages we sent: sent -> delivered (server ack) -> read (partner saw it)
+export type MessageStatus = "sent" | "delivered" | "read" | "failed";
+
 export interface Message {
   id: string;
   text: string;
   sender: "me" | "stranger" | "system";
   timestamp: number;
   system?: boolean;
+  notice?: SystemNotice; // Set on system messages, whose `text` stays empty
+  status?: MessageStatus; // Only set on our own messages
+  failureReason?: AckError; // Why the server refused it, e.g. a content filter; worded at render time
+  attachment?: MessageAttachment; // Set on file messages; `text` then holds the file name
+  reactions?: MessageReactions;
+  edited?: boolean; // Text was changed after sending
+  removed?: boolean; // Unsent by its author; shown as a placeholder with the content dropped
+  sentViaPeer?: boolean; // Delivered over the data channel; the server never saw it, so only that channel can change it
+}
+
+// System messages are kept as catalog keys so they follow the selected language
+export interface SystemNotice {
+  key: MessageKey;
+  params?: TranslationParams;
+}
+
+export type ReactionBy = "me" | "stranger";
+
+// Emoji -> who reacted with it; each side can add any number of different emoji
+export type MessageReactions = Partial<Record<string, ReactionBy[]>>;
+
+// Refers to a message by the id both peers share; `active: false` takes the reaction back
+export interface Reaction {
+  messageId: string;
+  emoji: string;
+  active: boolean;
+}
+
+// A shared file. Chunks arrive over the same transport as chat messages;
+// `url` is an object URL for the assembled file (the sender has one from the start).
+export interface MessageAttachment {
+  name: string;
+  mime: string;
+  size: number;
+  progress: number; // 0-1, chunks sent or received so far
+  url?: string;
+  error?: AckError; // Receiving side only; the sender sees a failed status instead
+}
+
+// File transfer events; limits are enforced by backend/attachments.js on both ends
+export interface FileStart {
+  id: string; // The attachment message's id
+  name: string;
+  mime: string;
+  size: number;
+  chunks: number;
+}
+
+export interface FileChunk {
+  id: string;
+  index: number;
+  data: string; // base64
+}
+
+// A refusal from the server, a shared validator or the partner, worded by describeError
+export interface AckError {
+  error: ErrorCode;
+  params?: TranslationParams;
+}
+
+// `text` is present when the server's content filters masked part of the message
+export type MessageAck = { ok: true; text?: string } | ({ ok: false } & AckError);
+
+export interface MessageStatusUpdate {
+  text?: string;
+  reason?: AckError;
+  viaPeer?: boolean; // Set on delivery: whether the partner acked it over the data channel
 }
 
+// Chat events exchanged directly with the partner over the WebRTC data channel.
+// They mirror the socket events, so either path produces the same message list.
+export type PeerChatEvent =
+  | { type: 'message'; id: string; text: string }
+  | { type: 'ack'; id: string; result: MessageAck }
+  | { type: 'read'; ids: string[] }
+  | { type: 'typing'; isTyping: boolean }
+  | ({ type: 'file-start' } & FileStart)
+  | ({ type: 'file-chunk' } & FileChunk)
+  | ({ type: 'reaction' } & Reaction)
+  | { type: 'edit'; id: string; text: string }
+  | { type: 'unsend'; id: string };
+
 export type ChatStatus = "idle" | "connecting" | "waiting" | "chatting" | "disconnected" | "error";
 
-export interface SignalingMessage {
-  type: 'video-offer' | 'video-answer' | 'ice-candidate' | 'bye';
+// Whether each of a peer's tracks is enabled (false = muted mic / camera off)
+export interface MediaState {
+  audio: boolean;
+  video: boolean;
+}
+
+// Payload carried by each signal type; validated by backend/signalingSchema.js on both ends
+export interface SignalPayloads {
+  'video-offer': RTCSessionDescriptionInit;
+  'video-answer': RTCSessionDescriptionInit;
+  'ice-candidate': RTCIceCandidateInit;
+  'media-state': MediaState;
+  'screen-share': { active: boolean };
+  bye: null;
+}
+
+export type SignalType = keyof SignalPayloads;
+
+// What the client sends; the server fills in sender/target from the real socket ids
+export type OutgoingSignal = {
+  [K in SignalType]: { type: K; payload: SignalPayloads[K] };
+}[SignalType];
+
+export type SignalingMessage = OutgoingSignal & {
   sender: string;
   target: string;
-  payload: any; // Contains SDP or ICE candidate data
-}
\ No newline at end of file
+};
+
+export interface ServerStats {
+  online: number;
+  searching: number;
+  chatting: number;
+  pairs: number;
+  updatedAt: number;
+}
@@ -0,0 +1,15 @@
+export type ReportStatus = "open" | "reviewed" | "actioned";
+
+export const REPORT_STATUSES: ReportStatus[] = ["open", "reviewed", "actioned"];
+
+export interface Report {
+  id: string;
+  reported_user_id: string | null;
+  reason: string;
+  room_id: string | null;
+  status: ReportStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NewReport = Pick<Report, 'reported_user_id' | 'reason' | 'room_id'>;